@@ -0,0 +1,82 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { KinesisVideoClient } from '@aws-sdk/client-kinesis-video';
+import { PresignedSignalingRequest, createPresignedSignalingPayload } from '@/lib/kvs-presigned';
+import { isChannelNotFoundError } from '@/lib/kvs-errors';
+
+// Credentials come from the server environment (AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY, an instance role, ...)
+// through the SDK's default provider chain and never reach the browser
+const kinesisVideoClient = new KinesisVideoClient({
+  region: process.env.KVS_REGION || process.env.AWS_REGION || 'us-east-1',
+});
+
+// Comma-separated allow list, or a single fixed KVS_CHANNEL_NAME. The route refuses to serve without one,
+// so it cannot be used to sign URLs for every channel in the account.
+const allowedChannels = (process.env.KVS_ALLOWED_CHANNELS || process.env.KVS_CHANNEL_NAME || '')
+  .split(',')
+  .map(channel => channel.trim())
+  .filter(Boolean);
+
+// A master URL takes over the channel, so it is opt-in; with KVS_MASTER_TOKEN set it also needs that bearer token
+const masterAllowed = process.env.KVS_ALLOW_MASTER === 'true';
+const masterToken = process.env.KVS_MASTER_TOKEN;
+
+// Auth hook for the MASTER role; replace the token check with the app's own auth if it has one
+function isMasterAuthorized(request: Request): boolean {
+  if (!masterAllowed) return false;
+  if (!masterToken) return true;
+  const presented = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer /, '') || '');
+  const expected = Buffer.from(masterToken);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+export async function POST(request: Request) {
+  if (allowedChannels.length === 0) {
+    console.error('Signaling route disabled: set KVS_ALLOWED_CHANNELS or KVS_CHANNEL_NAME');
+    return NextResponse.json({ error: 'Signaling URL vending is not configured' }, { status: 503 });
+  }
+
+  let body: Partial<PresignedSignalingRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const role = body.role;
+  const channelName = body.channelName || process.env.KVS_CHANNEL_NAME;
+  const clientId = body.clientId;
+
+  if (role !== 'MASTER' && role !== 'VIEWER') {
+    return NextResponse.json({ error: 'role must be MASTER or VIEWER' }, { status: 400 });
+  }
+  if (typeof channelName !== 'string' || !channelName) {
+    return NextResponse.json({ error: 'channelName is required' }, { status: 400 });
+  }
+  if (role === 'VIEWER' && (typeof clientId !== 'string' || !/^[a-zA-Z0-9_.-]{1,256}$/.test(clientId))) {
+    return NextResponse.json({ error: 'A valid clientId is required for VIEWER' }, { status: 400 });
+  }
+  if (!allowedChannels.includes(channelName)) {
+    return NextResponse.json({ error: `Channel ${channelName} is not allowed` }, { status: 403 });
+  }
+  if (role === 'MASTER' && !isMasterAuthorized(request)) {
+    return NextResponse.json({ error: 'Not allowed to connect as MASTER' }, { status: 403 });
+  }
+
+  try {
+    const payload = await createPresignedSignalingPayload(kinesisVideoClient, { channelName, role, clientId });
+    return NextResponse.json(payload, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Failed to vend signaling URL:', error);
+    if (isChannelNotFoundError(error)) {
+      return NextResponse.json({ error: `Channel ${channelName} does not exist` }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to vend signaling URL' },
+      { status: 502 }
+    );
+  }
+}
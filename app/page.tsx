@@ -1,32 +1,76 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Video, VideoOff, Settings, Play, Square } from 'lucide-react';
+import { Video, VideoOff, Settings, Play, Square, List } from 'lucide-react';
 import ConfigPanel from '@/components/ConfigPanel';
 import Producer from '@/components/Producer';
 import Consumer from '@/components/Consumer';
+import ChannelManager from '@/components/ChannelManager';
+import { KVSConfig } from '@/lib/kvs-webrtc';
+import { fromCredentialsEndpoint } from '@/lib/kvs-credentials';
 
 export default function Home() {
-  const [mode, setMode] = useState<'select' | 'producer' | 'consumer'>('select');
+  const [mode, setMode] = useState<'select' | 'producer' | 'consumer' | 'channels'>('select');
   const [config, setConfig] = useState({
     region: process.env.NEXT_PUBLIC_AWS_REGION || 'us-east-1',
     accessKeyId: process.env.NEXT_PUBLIC_AWS_ACCESS_KEY_ID || '',
     secretAccessKey: process.env.NEXT_PUBLIC_AWS_SECRET_ACCESS_KEY || '',
-    channelName: process.env.NEXT_PUBLIC_KVS_CHANNEL_NAME || 'test-channel'
+    sessionToken: process.env.NEXT_PUBLIC_AWS_SESSION_TOKEN || '',
+    credentialsUrl: process.env.NEXT_PUBLIC_AWS_CREDENTIALS_URL || '',
+    signalingUrlEndpoint: process.env.NEXT_PUBLIC_KVS_SIGNALING_URL_ENDPOINT || '',
+    localSignalingUrl: process.env.NEXT_PUBLIC_KVS_LOCAL_SIGNALING_URL || '',
+    channelName: process.env.NEXT_PUBLIC_KVS_CHANNEL_NAME || 'test-channel',
+    createChannelIfMissing: process.env.NEXT_PUBLIC_KVS_CREATE_CHANNEL_IF_MISSING === 'true'
   });
   const [showConfig, setShowConfig] = useState(false);
 
-  const isConfigured = config.accessKeyId && config.secretAccessKey;
+  const isConfigured = config.localSignalingUrl || config.signalingUrlEndpoint || config.credentialsUrl || (config.accessKeyId && config.secretAccessKey);
+
+  // Local signaling has no channels to manage, and in server mode the browser has no AWS credentials to manage them with
+  const channelsUnavailableReason = config.localSignalingUrl
+    ? 'Channel management is not available with a local signaling server.'
+    : config.signalingUrlEndpoint
+      ? 'Channel management needs AWS credentials in the browser and is not available in server mode.'
+      : undefined;
+
+  // Server mode and credential endpoints keep long-lived keys out of the browser
+  const kvsConfig = useMemo<KVSConfig>(() => {
+    const base = { region: config.region, channelName: config.channelName, createChannelIfMissing: config.createChannelIfMissing };
+    if (config.localSignalingUrl) {
+      return { region: config.region, channelName: config.channelName, localSignalingUrl: config.localSignalingUrl };
+    }
+    if (config.signalingUrlEndpoint) {
+      return {
+        ...base,
+        signalingUrlEndpoint: config.signalingUrlEndpoint,
+        signalingUrlToken: process.env.NEXT_PUBLIC_KVS_SIGNALING_URL_TOKEN || undefined,
+      };
+    }
+    if (config.credentialsUrl) {
+      return { ...base, credentials: fromCredentialsEndpoint(config.credentialsUrl) };
+    }
+    return { ...base, accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey, sessionToken: config.sessionToken };
+  }, [config]);
 
   if (mode === 'producer') {
-    return <Producer config={config} onBack={() => setMode('select')} />;
+    return <Producer config={kvsConfig} onBack={() => setMode('select')} />;
   }
 
   if (mode === 'consumer') {
-    return <Consumer config={config} onBack={() => setMode('select')} />;
+    return <Consumer config={kvsConfig} onBack={() => setMode('select')} />;
+  }
+
+  if (mode === 'channels') {
+    return (
+      <ChannelManager
+        config={kvsConfig}
+        onSelectChannel={(channelName) => setConfig({ ...config, channelName })}
+        onBack={() => setMode('select')}
+      />
+    );
   }
 
   return (
@@ -51,7 +95,7 @@ export default function Home() {
         </div>
 
         <div className="max-w-4xl mx-auto">
-          <div className="flex justify-center mb-8">
+          <div className="flex justify-center gap-4 mb-8">
             <Button
               onClick={() => setShowConfig(!showConfig)}
               variant="outline"
@@ -60,7 +104,19 @@ export default function Home() {
               <Settings className="w-4 h-4 mr-2" />
               Configuration
             </Button>
+            <Button
+              onClick={() => setMode('channels')}
+              disabled={!isConfigured || !!channelsUnavailableReason}
+              variant="outline"
+              className="bg-gray-800 border-gray-700 text-white hover:bg-gray-700"
+            >
+              <List className="w-4 h-4 mr-2" />
+              Channels
+            </Button>
           </div>
+          {channelsUnavailableReason && (
+            <p className="text-center text-gray-400 text-sm -mt-4 mb-8">{channelsUnavailableReason}</p>
+          )}
 
           {showConfig && (
             <ConfigPanel 
@@ -0,0 +1,87 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { BitrateDecision } from '@/lib/kvs-adaptive-bitrate';
+import { VideoEncodingOptions } from '@/lib/kvs-encoding';
+
+const RECENT_DECISIONS = 5;
+
+interface AdaptiveBitratePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  disabled: boolean;
+  // Oldest first
+  decisions: BitrateDecision[];
+  viewers: string[];
+}
+
+function formatEncoding({ maxBitrate, maxFramerate, scaleResolutionDownBy }: VideoEncodingOptions): string {
+  const parts = [maxBitrate ? `${Math.round(maxBitrate / 1000)} kbps` : 'No limit'];
+  if (maxFramerate) parts.push(`${maxFramerate} fps`);
+  if (scaleResolutionDownBy && scaleResolutionDownBy > 1) parts.push(`1/${scaleResolutionDownBy} res`);
+  return parts.join(' · ');
+}
+
+export default function AdaptiveBitratePanel({ enabled, onEnabledChange, disabled, decisions, viewers }: AdaptiveBitratePanelProps) {
+  // Latest decision per connected viewer is its current level
+  const currentLevels = new Map<string, BitrateDecision>();
+  decisions
+    .filter(decision => viewers.includes(decision.remoteClientId))
+    .forEach(decision => currentLevels.set(decision.remoteClientId, decision));
+  const recent = decisions.slice(-RECENT_DECISIONS).reverse();
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Adaptive Bitrate</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="adaptiveBitrate" className="text-gray-300 text-sm">Adapt to network conditions</Label>
+          <Switch
+            id="adaptiveBitrate"
+            checked={enabled}
+            onCheckedChange={onEnabledChange}
+            disabled={disabled}
+          />
+        </div>
+
+        {enabled && decisions.length === 0 && (
+          <p className="text-gray-400 text-sm">Viewers start at full quality. Changes appear here as the network varies.</p>
+        )}
+
+        {currentLevels.size > 0 && (
+          <div className="space-y-1">
+            {Array.from(currentLevels.values()).map(decision => (
+              <div key={decision.remoteClientId} className="flex justify-between text-sm">
+                <span className="text-gray-300 truncate mr-2">{decision.remoteClientId}</span>
+                <span className="text-white whitespace-nowrap">{formatEncoding(decision.encoding)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {recent.length > 0 && (
+          <div className="space-y-2 border-t border-gray-700 pt-3">
+            {recent.map(decision => (
+              <div key={`${decision.remoteClientId}-${decision.timestamp}`} className="flex items-start gap-2 text-xs">
+                {decision.direction === 'down'
+                  ? <ArrowDown className="w-3 h-3 mt-0.5 text-orange-400 shrink-0" />
+                  : <ArrowUp className="w-3 h-3 mt-0.5 text-green-400 shrink-0" />}
+                <div className="min-w-0">
+                  <div className="text-white">
+                    {new Date(decision.timestamp).toLocaleTimeString()} · {formatEncoding(decision.encoding)}
+                  </div>
+                  <div className="text-gray-400 truncate">{decision.remoteClientId}: {decision.reason}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
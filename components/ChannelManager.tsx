@@ -0,0 +1,425 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Plus, RefreshCw, Search, Trash2 } from 'lucide-react';
+import ErrorCard from '@/components/ErrorCard';
+import LogConsole from '@/components/LogConsole';
+import { KVSConfig } from '@/lib/kvs-webrtc';
+import {
+  DEFAULT_MESSAGE_TTL_SECONDS,
+  KVSChannelManager,
+  MAX_MESSAGE_TTL_SECONDS,
+  MIN_MESSAGE_TTL_SECONDS,
+  SignalingChannel,
+} from '@/lib/kvs-channels';
+import { KVSError, toKVSError } from '@/lib/kvs-errors';
+import { SessionLog, consoleLogger } from '@/lib/kvs-logger';
+
+interface ChannelManagerProps {
+  config: KVSConfig;
+  onSelectChannel: (channelName: string) => void;
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+// "env=dev, team=video" -> { env: 'dev', team: 'video' }
+function parseTags(text: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  text.split(',').forEach(pair => {
+    const [key, ...rest] = pair.split('=');
+    if (key.trim()) {
+      tags[key.trim()] = rest.join('=').trim();
+    }
+  });
+  return tags;
+}
+
+function formatTags(tags?: Record<string, string>): string {
+  if (!tags) return '';
+  return Object.entries(tags).map(([key, value]) => `${key}=${value}`).join(', ');
+}
+
+export default function ChannelManager({ config, onSelectChannel, onBack }: ChannelManagerProps) {
+  const [channels, setChannels] = useState<SignalingChannel[]>([]);
+  const [nextToken, setNextToken] = useState<string | undefined>();
+  const [namePrefix, setNamePrefix] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newTtl, setNewTtl] = useState(String(DEFAULT_MESSAGE_TTL_SECONDS));
+  const [newTags, setNewTags] = useState('');
+  const [selected, setSelected] = useState<SignalingChannel | null>(null);
+  const [editTtl, setEditTtl] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<KVSError | null>(null);
+  const sessionLogRef = useRef(new SessionLog(consoleLogger));
+
+  const channelManager = useMemo(() => {
+    try {
+      return KVSChannelManager.fromConfig({ ...config, logger: sessionLogRef.current });
+    } catch {
+      return null;
+    }
+  }, [config]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      sessionLogRef.current.error('Channel operation failed', { error: err });
+      setError(toKVSError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadChannels = (append = false) => run(async () => {
+    const result = await channelManager!.listChannels({
+      namePrefix: namePrefix.trim() || undefined,
+      tags: parseTags(tagFilter),
+      maxResults: PAGE_SIZE,
+      nextToken: append ? nextToken : undefined,
+    });
+    setChannels(previous => append ? [...previous, ...result.channels] : result.channels);
+    setNextToken(result.nextToken);
+  });
+
+  const selectChannel = (channelName: string) => run(async () => {
+    const channel = await channelManager!.describeChannel(channelName);
+    setSelected(channel);
+    setEditTtl(String(channel.messageTtlSeconds));
+  });
+
+  const createChannel = () => run(async () => {
+    const channel = await channelManager!.createChannel(newName.trim(), {
+      messageTtlSeconds: Number(newTtl),
+      tags: parseTags(newTags),
+    });
+    setNewName('');
+    setNewTags('');
+    setSelected(await channelManager!.describeChannel(channel.name));
+    setEditTtl(String(channel.messageTtlSeconds));
+    setChannels(previous => [channel, ...previous.filter(c => c.name !== channel.name)]);
+  });
+
+  const updateChannel = () => run(async () => {
+    const channel = await channelManager!.updateChannel(selected!.name, { messageTtlSeconds: Number(editTtl) });
+    setSelected({ ...channel, tags: selected!.tags });
+    setChannels(previous => previous.map(c => c.name === channel.name ? { ...channel, tags: c.tags } : c));
+  });
+
+  const deleteChannel = (channelName: string) => run(async () => {
+    await channelManager!.deleteChannel(channelName);
+    setChannels(previous => previous.filter(c => c.name !== channelName));
+    if (selected?.name === channelName) {
+      setSelected(null);
+    }
+  });
+
+  useEffect(() => {
+    if (channelManager) {
+      loadChannels();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelManager]);
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'ACTIVE': return 'bg-green-600';
+      case 'CREATING':
+      case 'UPDATING': return 'bg-yellow-600';
+      case 'DELETING': return 'bg-red-600';
+      default: return 'bg-gray-600';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-blue-900 to-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="ghost"
+            className="text-white hover:bg-gray-800 mr-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Signaling Channels</h1>
+            <p className="text-gray-300">Region: {config.region}</p>
+          </div>
+        </div>
+
+        {!channelManager ? (
+          <Card className="bg-gray-800 border-gray-700">
+            <CardContent className="pt-6">
+              <p className="text-gray-300">
+                Channel management calls AWS from the browser and needs access keys or a credentials endpoint.
+                It is not available in server mode.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 space-y-6">
+              <Card className="bg-gray-800 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center justify-between">
+                    Channels
+                    <Button
+                      onClick={() => loadChannels()}
+                      disabled={busy}
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid md:grid-cols-[1fr_1fr_auto] gap-2">
+                    <Input
+                      value={namePrefix}
+                      onChange={(e) => setNamePrefix(e.target.value)}
+                      placeholder="Name prefix"
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                    <Input
+                      value={tagFilter}
+                      onChange={(e) => setTagFilter(e.target.value)}
+                      placeholder="Tags, e.g. env=dev, team=video"
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                    <Button onClick={() => loadChannels()} disabled={busy} className="bg-blue-600 hover:bg-blue-700">
+                      <Search className="w-4 h-4 mr-2" />
+                      Search
+                    </Button>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-gray-700">
+                        <TableHead className="text-gray-400">Name</TableHead>
+                        <TableHead className="text-gray-400">Status</TableHead>
+                        <TableHead className="text-gray-400">Message TTL</TableHead>
+                        <TableHead className="text-gray-400">Created</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {channels.length === 0 ? (
+                        <TableRow className="border-gray-700">
+                          <TableCell colSpan={5} className="text-gray-500 text-center">
+                            {busy ? 'Loading...' : 'No channels found'}
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        channels.map(channel => (
+                          <TableRow
+                            key={channel.arn}
+                            onClick={() => selectChannel(channel.name)}
+                            className={`border-gray-700 cursor-pointer hover:bg-gray-700 ${selected?.name === channel.name ? 'bg-gray-700' : ''}`}
+                          >
+                            <TableCell className="text-white">
+                              {channel.name}
+                              {channel.name === config.channelName && (
+                                <Badge className="ml-2 bg-blue-600 text-white">In use</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={`${getStatusColor(channel.status)} text-white`}>{channel.status}</Badge>
+                            </TableCell>
+                            <TableCell className="text-gray-300">{channel.messageTtlSeconds}s</TableCell>
+                            <TableCell className="text-gray-300">
+                              {channel.createdAt ? channel.createdAt.toLocaleString() : '—'}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setPendingDelete(channel.name);
+                                }}
+                                disabled={busy}
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-400 hover:text-red-300 hover:bg-gray-800"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+
+                  {nextToken && (
+                    <Button
+                      onClick={() => loadChannels(true)}
+                      disabled={busy}
+                      variant="outline"
+                      className="w-full bg-gray-800 border-gray-700 text-white hover:bg-gray-700"
+                    >
+                      Load more
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              <Card className="bg-gray-800 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="text-white">Create Channel</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="newChannelName" className="text-white">Channel Name</Label>
+                    <Input
+                      id="newChannelName"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      placeholder="my-channel"
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="newChannelTtl" className="text-white">Message TTL (seconds)</Label>
+                    <Input
+                      id="newChannelTtl"
+                      type="number"
+                      min={MIN_MESSAGE_TTL_SECONDS}
+                      max={MAX_MESSAGE_TTL_SECONDS}
+                      value={newTtl}
+                      onChange={(e) => setNewTtl(e.target.value)}
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="newChannelTags" className="text-white">Tags (optional)</Label>
+                    <Input
+                      id="newChannelTags"
+                      value={newTags}
+                      onChange={(e) => setNewTags(e.target.value)}
+                      placeholder="env=dev, team=video"
+                      className="bg-gray-700 border-gray-600 text-white"
+                    />
+                  </div>
+                  <Button
+                    onClick={createChannel}
+                    disabled={busy || !newName.trim()}
+                    className="w-full bg-green-600 hover:bg-green-700"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {selected && (
+                <Card className="bg-gray-800 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white">{selected.name}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-400">Status:</span>
+                        <span className="text-white">{selected.status}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-400">Version:</span>
+                        <span className="text-white">{selected.version}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-gray-400">Tags:</span>
+                        <span className="text-white text-right">{formatTags(selected.tags) || '—'}</span>
+                      </div>
+                      <p className="text-gray-400 text-xs break-all">{selected.arn}</p>
+                    </div>
+                    <div>
+                      <Label htmlFor="editChannelTtl" className="text-white">Message TTL (seconds)</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="editChannelTtl"
+                          type="number"
+                          min={MIN_MESSAGE_TTL_SECONDS}
+                          max={MAX_MESSAGE_TTL_SECONDS}
+                          value={editTtl}
+                          onChange={(e) => setEditTtl(e.target.value)}
+                          className="bg-gray-700 border-gray-600 text-white"
+                        />
+                        <Button
+                          onClick={updateChannel}
+                          disabled={busy || Number(editTtl) === selected.messageTtlSeconds}
+                          className="bg-blue-600 hover:bg-blue-700"
+                        >
+                          Update
+                        </Button>
+                      </div>
+                    </div>
+                    <Button
+                      onClick={() => onSelectChannel(selected.name)}
+                      disabled={selected.name === config.channelName}
+                      className="w-full bg-blue-600 hover:bg-blue-700"
+                    >
+                      Use this channel
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {error && <ErrorCard error={error} />}
+
+              <LogConsole log={sessionLogRef.current} />
+            </div>
+          </div>
+        )}
+
+        <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+          <AlertDialogContent className="bg-gray-800 border-gray-700">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-white">Delete {pendingDelete}?</AlertDialogTitle>
+              <AlertDialogDescription className="text-gray-400">
+                Producers and viewers on this channel are disconnected and the channel cannot be recovered.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel className="bg-gray-700 border-gray-600 text-white hover:bg-gray-600">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  deleteChannel(pendingDelete!);
+                  setPendingDelete(null);
+                }}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
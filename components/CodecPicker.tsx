@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CODEC_LABELS, CodecPreferences, VIDEO_CODECS, VideoCodec, getSupportedVideoCodecs } from '@/lib/kvs-codecs';
+
+const BROWSER_DEFAULT = 'default';
+
+interface CodecPickerProps {
+  value: CodecPreferences;
+  onChange: (preferences: CodecPreferences) => void;
+  disabled: boolean;
+}
+
+export default function CodecPicker({ value, onChange, disabled }: CodecPickerProps) {
+  const [supportedCodecs, setSupportedCodecs] = useState<VideoCodec[]>(VIDEO_CODECS);
+
+  // Capabilities are only known in the browser
+  useEffect(() => {
+    const supported = getSupportedVideoCodecs();
+    if (supported.length > 0) {
+      setSupportedCodecs(supported);
+    }
+  }, []);
+
+  const videoCodec = value.video?.[0] || BROWSER_DEFAULT;
+
+  const handleCodecChange = (codec: string) => {
+    onChange(codec === BROWSER_DEFAULT
+      ? { ...value, video: undefined, restrict: false }
+      : { ...value, video: [codec as VideoCodec] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label className="text-white">Video codec</Label>
+        <Select value={videoCodec} onValueChange={handleCodecChange} disabled={disabled}>
+          <SelectTrigger className="bg-gray-700 border-gray-600 text-white mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BROWSER_DEFAULT}>Browser default</SelectItem>
+            {supportedCodecs.map(codec => (
+              <SelectItem key={codec} value={codec}>{CODEC_LABELS[codec]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="restrictCodecs" className="text-gray-300 text-sm">Only allow this codec</Label>
+        <Switch
+          id="restrictCodecs"
+          checked={!!value.restrict}
+          onCheckedChange={(restrict) => onChange({ ...value, restrict })}
+          disabled={disabled || videoCodec === BROWSER_DEFAULT}
+        />
+      </div>
+    </div>
+  );
+}
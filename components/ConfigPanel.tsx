@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { X } from 'lucide-react';
 
 interface ConfigPanelProps {
@@ -11,14 +12,19 @@ interface ConfigPanelProps {
     region: string;
     accessKeyId: string;
     secretAccessKey: string;
+    sessionToken: string;
+    credentialsUrl: string;
+    signalingUrlEndpoint: string;
+    localSignalingUrl: string;
     channelName: string;
+    createChannelIfMissing: boolean;
   };
   onChange: (config: any) => void;
   onClose: () => void;
 }
 
 export default function ConfigPanel({ config, onChange, onClose }: ConfigPanelProps) {
-  const handleChange = (key: string, value: string) => {
+  const handleChange = (key: string, value: string | boolean) => {
     onChange({
       ...config,
       [key]: value
@@ -61,6 +67,19 @@ export default function ConfigPanel({ config, onChange, onClose }: ConfigPanelPr
             />
           </div>
         </div>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="createChannelIfMissing" className="text-white">Create channel if missing</Label>
+            <p className="text-gray-400 text-xs mt-1">
+              Creates the channel on connect when it does not exist. Requires permission to create signaling channels.
+            </p>
+          </div>
+          <Switch
+            id="createChannelIfMissing"
+            checked={config.createChannelIfMissing}
+            onCheckedChange={(checked) => handleChange('createChannelIfMissing', checked)}
+          />
+        </div>
         <div>
           <Label htmlFor="accessKeyId" className="text-white">Access Key ID</Label>
           <Input
@@ -83,10 +102,60 @@ export default function ConfigPanel({ config, onChange, onClose }: ConfigPanelPr
             className="bg-gray-700 border-gray-600 text-white"
           />
         </div>
+        <div>
+          <Label htmlFor="sessionToken" className="text-white">Session Token (optional)</Label>
+          <Input
+            id="sessionToken"
+            type="password"
+            value={config.sessionToken}
+            onChange={(e) => handleChange('sessionToken', e.target.value)}
+            placeholder="Only needed for temporary credentials"
+            className="bg-gray-700 border-gray-600 text-white"
+          />
+        </div>
+        <div>
+          <Label htmlFor="credentialsUrl" className="text-white">Credentials Endpoint (optional)</Label>
+          <Input
+            id="credentialsUrl"
+            value={config.credentialsUrl}
+            onChange={(e) => handleChange('credentialsUrl', e.target.value)}
+            placeholder="https://your-backend/kvs-credentials"
+            className="bg-gray-700 border-gray-600 text-white"
+          />
+          <p className="text-gray-400 text-xs mt-1">
+            When set, temporary credentials are fetched from this URL and refreshed before they expire; the keys above are ignored.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="signalingUrlEndpoint" className="text-white">Signaling URL Endpoint (server mode)</Label>
+          <Input
+            id="signalingUrlEndpoint"
+            value={config.signalingUrlEndpoint}
+            onChange={(e) => handleChange('signalingUrlEndpoint', e.target.value)}
+            placeholder="/api/kvs/signaling"
+            className="bg-gray-700 border-gray-600 text-white"
+          />
+          <p className="text-gray-400 text-xs mt-1">
+            When set, the server resolves the channel and pre-signs the signaling URL; no AWS credentials are used in the browser.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="localSignalingUrl" className="text-white">Local Signaling Server (offline)</Label>
+          <Input
+            id="localSignalingUrl"
+            value={config.localSignalingUrl}
+            onChange={(e) => handleChange('localSignalingUrl', e.target.value)}
+            placeholder="ws://localhost:8787"
+            className="bg-gray-700 border-gray-600 text-white"
+          />
+          <p className="text-gray-400 text-xs mt-1">
+            When set, signaling goes through <code>npm run signaling:local</code> instead of KVS and every other setting except the channel name is ignored.
+          </p>
+        </div>
         <div className="bg-gray-700 rounded-lg p-4 mt-4">
           <p className="text-gray-300 text-sm">
-            <strong>Security Note:</strong> In production, use IAM roles or environment variables instead of hardcoded credentials.
-            These credentials are only stored in your browser's memory and are not persisted.
+            <strong>Security Note:</strong> In production, use a credentials endpoint or temporary credentials instead of long-lived access keys.
+            These credentials are only stored in your browser&apos;s memory and are not persisted.
           </p>
         </div>
       </CardContent>
@@ -5,75 +5,171 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Play, Square, Wifi, WifiOff, Volume2, VolumeX } from 'lucide-react';
-import { KVSWebRTCClient } from '@/lib/kvs-webrtc';
+import { CodecPreferences, ConnectionState, KVSConfig, KVSWebRTCClient, PeerStatsSnapshot } from '@/lib/kvs-webrtc';
+import { DataChannelMessageData } from '@/lib/kvs-events';
+import { MAX_CLOCK_SKEW_MS, formatClockSkew } from '@/lib/kvs-clock-skew';
+import MessagesPanel, { ChatMessage } from '@/components/MessagesPanel';
+import ErrorCard from '@/components/ErrorCard';
+import LogConsole from '@/components/LogConsole';
+import StatsDashboard from '@/components/StatsDashboard';
+import CodecPicker from '@/components/CodecPicker';
+import StreamQualityPanel from '@/components/StreamQualityPanel';
+import TalkbackPanel from '@/components/TalkbackPanel';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KVSError, MediaPermissionError, toKVSError } from '@/lib/kvs-errors';
+import { SessionLog, consoleLogger } from '@/lib/kvs-logger';
+import { StatsHistory } from '@/lib/kvs-stats-history';
+import { TalkbackController, TalkbackMode, TalkbackState } from '@/lib/kvs-talkback';
+import { MEDIA_PRESETS, MediaPreset } from '@/lib/kvs-media';
+
+const TALKBACK_OFF: TalkbackState = { mode: 'off', camera: false, talking: false };
 
 interface ConsumerProps {
-  config: {
-    region: string;
-    accessKeyId: string;
-    secretAccessKey: string;
-    channelName: string;
-  };
+  config: KVSConfig;
   onBack: () => void;
 }
 
 export default function Consumer({ config, onBack }: ConsumerProps) {
   const [isViewing, setIsViewing] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
-  const [error, setError] = useState<string>('');
+  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error'>('disconnected');
+  const [lifecycleState, setLifecycleState] = useState<ConnectionState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [clockSkewMs, setClockSkewMs] = useState<number | null>(null);
+  const [error, setError] = useState<KVSError | null>(null);
   const [isMuted, setIsMuted] = useState(false);
+  const [codecPreferences, setCodecPreferences] = useState<CodecPreferences>({});
+  const [mediaPreset, setMediaPreset] = useState<MediaPreset>('receive');
+  const [statsSnapshot, setStatsSnapshot] = useState<PeerStatsSnapshot>();
+  const [peerConnectionState, setPeerConnectionState] = useState<RTCPeerConnectionState>('new');
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isChannelOpen, setIsChannelOpen] = useState(false);
+  const [talkbackState, setTalkbackState] = useState<TalkbackState>(TALKBACK_OFF);
+  const [talkbackCamera, setTalkbackCamera] = useState<MediaStreamTrack>();
+  const messageIdRef = useRef(0);
   const videoRef = useRef<HTMLVideoElement>(null);
   const kvsClientRef = useRef<KVSWebRTCClient | null>(null);
+  // Outlives each client so the log of a failed attempt is still there to download
+  const sessionLogRef = useRef(new SessionLog(consoleLogger));
+  const statsHistoryRef = useRef(new StatsHistory('inbound'));
   const remoteStreamRef = useRef<MediaStream | null>(null);
+  const talkbackRef = useRef<TalkbackController | null>(null);
+
+  const appendMessage = (message: Omit<ChatMessage, 'id'>) => {
+    // Keep the log bounded, this is a live view rather than a transcript
+    setMessages(prev => [...prev.slice(-99), { ...message, id: messageIdRef.current++ }]);
+  };
+
+  const formatMessage = (data: DataChannelMessageData) => {
+    return typeof data === 'string' ? data : `[binary, ${data.byteLength} bytes]`;
+  };
 
   const startViewing = async () => {
+    // A client left from an earlier attempt would keep retrying in the background
+    if (kvsClientRef.current) {
+      stopViewing();
+    }
+
     try {
       setConnectionStatus('connecting');
-      setError('');
+      setError(null);
+      setStatsSnapshot(undefined);
+      setPeerConnectionState('new');
+      statsHistoryRef.current.clear();
 
       // Initialize KVS WebRTC client as viewer (consumer)
-      kvsClientRef.current = new KVSWebRTCClient(config, 'VIEWER');
+      kvsClientRef.current = new KVSWebRTCClient({
+        ...config,
+        codecs: codecPreferences,
+        media: MEDIA_PRESETS[mediaPreset].options,
+        logger: sessionLogRef.current,
+        logLevel: 'debug',
+      }, 'VIEWER');
 
       // Set up event handlers
-      kvsClientRef.current.onRemoteStream((stream) => {
-        console.log('Received remote stream');
+      kvsClientRef.current.on('remoteStream', (stream) => {
+        sessionLogRef.current.info('Received remote stream', { tracks: stream.getTracks().length });
         remoteStreamRef.current = stream;
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
         }
       });
 
-      kvsClientRef.current.onConnectionStateChange((state) => {
-        console.log('Connection state:', state);
+      // Failed or dropped connections are retried by the client and reported through 'reconnecting'/'error'
+      kvsClientRef.current.on('stateChange', (state) => {
+        setLifecycleState(state);
         switch (state) {
+          case 'resolving':
+          case 'signaling':
+          case 'negotiating':
+            setConnectionStatus('connecting');
+            break;
           case 'connected':
             setConnectionStatus('connected');
             setIsViewing(true);
+            setReconnectAttempt(0);
+            setError(null);
             break;
-          case 'failed':
-          case 'disconnected':
-            setConnectionStatus('error');
-            setIsViewing(false);
-            break;
-          case 'connecting':
-            setConnectionStatus('connecting');
+          case 'reconnecting':
+            setConnectionStatus('reconnecting');
             break;
         }
       });
 
-      kvsClientRef.current.onError((error) => {
-        console.error('KVS WebRTC error:', error);
-        setError(`Connection error: ${error.message}`);
+      // Must be registered before connect() so the channel is part of the offer
+      kvsClientRef.current.createDataChannel();
+      kvsClientRef.current.on('dataChannelOpen', () => setIsChannelOpen(true));
+      kvsClientRef.current.on('dataChannelClose', () => setIsChannelOpen(false));
+      kvsClientRef.current.on('message', (data) => {
+        appendMessage({ from: 'Producer', text: formatMessage(data), outgoing: false });
+      });
+
+      // Sampled every second by the client's stats collector
+      kvsClientRef.current.on('statsSnapshot', setStatsSnapshot);
+      kvsClientRef.current.on('connectionStateChange', setPeerConnectionState);
+
+      kvsClientRef.current.on('clockSkew', ({ offsetMs }) => setClockSkewMs(offsetMs));
+
+      kvsClientRef.current.on('reconnecting', (attempt) => {
+        setReconnectAttempt(attempt);
+        statsHistoryRef.current.addAnnotation({ type: 'reconnect', label: `Attempt ${attempt}` });
+      });
+      kvsClientRef.current.on('reconnected', () => {
+        statsHistoryRef.current.addAnnotation({ type: 'reconnect', label: 'Reconnected' });
+      });
+
+      kvsClientRef.current.on('statsSnapshot', (snapshot) => statsHistoryRef.current.addSnapshot(snapshot));
+      kvsClientRef.current.on('negotiation', ({ type, direction, remoteClientId }) => {
+        if (type !== 'iceRestart') return;
+        statsHistoryRef.current.addAnnotation({ type: 'iceRestart', label: `Restart ${direction}`, remoteClientId });
+      });
+
+      kvsClientRef.current.on('error', (error) => {
+        sessionLogRef.current.error('KVS WebRTC error', { code: error.code, message: error.message });
+        setError(error);
+        // With reconnection on the client keeps offering until a master shows up, so this one is shown
+        // without ending the session; otherwise the client has closed
+        if (error.code === 'MASTER_NOT_PRESENT' && kvsClientRef.current?.getState() !== 'closed') return;
         setConnectionStatus('error');
         setIsViewing(false);
       });
 
-      // Connect without local stream (viewer only receives)
+      // Talkback tracks are added once connected and renegotiated onto the session
+      const talkback = new TalkbackController(kvsClientRef.current, undefined, sessionLogRef.current);
+      talkback.on('stateChange', (state) => {
+        setTalkbackState(state);
+        setTalkbackCamera(talkback.getCameraTrack());
+      });
+      talkbackRef.current = talkback;
+
       await kvsClientRef.current.connect();
 
     } catch (err) {
+      const kvsError = toKVSError(err);
+      // Stopped while connecting
+      if (kvsError.code === 'ABORTED') return;
       setConnectionStatus('error');
-      setError(`Connection failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setError(kvsError);
       setIsViewing(false);
     }
   };
@@ -81,6 +177,15 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
   const stopViewing = () => {
     setIsViewing(false);
     setConnectionStatus('disconnected');
+    setReconnectAttempt(0);
+    setIsChannelOpen(false);
+    setTalkbackState(TALKBACK_OFF);
+    setTalkbackCamera(undefined);
+    if (talkbackRef.current) {
+      talkbackRef.current.removeAllListeners();
+      talkbackRef.current.stop().catch(() => {});
+      talkbackRef.current = null;
+    }
     if (kvsClientRef.current) {
       kvsClientRef.current.disconnect();
       kvsClientRef.current = null;
@@ -94,6 +199,24 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
     }
   };
 
+  const sendMessage = (text: string) => {
+    if (kvsClientRef.current && kvsClientRef.current.send(text) > 0) {
+      appendMessage({ from: 'Viewer', text, outgoing: true });
+    }
+  };
+
+  const handleTalkbackError = (err: unknown) => {
+    setError(toKVSError(err, cause => new MediaPermissionError(`Talkback failed: ${String(cause)}`, cause)));
+  };
+
+  const changeTalkbackMode = (mode: TalkbackMode) => {
+    talkbackRef.current?.setMode(mode).catch(handleTalkbackError);
+  };
+
+  const changeTalkbackCamera = (camera: boolean) => {
+    talkbackRef.current?.setCamera(camera).catch(handleTalkbackError);
+  };
+
   const toggleMute = () => {
     if (videoRef.current) {
       videoRef.current.muted = !videoRef.current.muted;
@@ -107,17 +230,21 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
     };
   }, []);
 
+  // The client is connecting or retrying, e.g. while waiting for a master, and can only be cancelled
+  const isActive = connectionStatus !== 'disconnected' && connectionStatus !== 'error';
+
   const getStatusColor = () => {
     switch (connectionStatus) {
       case 'connected': return 'bg-green-600';
       case 'connecting': return 'bg-yellow-600';
+      case 'reconnecting': return 'bg-orange-600';
       case 'error': return 'bg-red-600';
       default: return 'bg-gray-600';
     }
   };
 
   const getStatusIcon = () => {
-    return connectionStatus === 'connected' || connectionStatus === 'connecting' ? 
+    return connectionStatus === 'connected' || connectionStatus === 'connecting' || connectionStatus === 'reconnecting' ? 
       <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />;
   };
 
@@ -140,7 +267,7 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
         </div>
 
         <div className="grid lg:grid-cols-3 gap-8">
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card className="bg-gray-800 border-gray-700">
               <CardHeader>
                 <CardTitle className="text-white flex items-center justify-between">
@@ -183,6 +310,8 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
                 </div>
               </CardContent>
             </Card>
+
+            <StatsDashboard history={statsHistoryRef.current} seriesLabel={() => 'Master'} />
           </div>
 
           <div className="space-y-6">
@@ -191,14 +320,13 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
                 <CardTitle className="text-white">Viewer Controls</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {!isViewing ? (
+                {!isViewing && !isActive ? (
                   <Button
                     onClick={startViewing}
-                    disabled={connectionStatus === 'connecting'}
                     className="w-full bg-green-600 hover:bg-green-700"
                   >
                     <Play className="w-4 h-4 mr-2" />
-                    {connectionStatus === 'connecting' ? 'Connecting...' : 'Start Viewing'}
+                    Start Viewing
                   </Button>
                 ) : (
                   <Button
@@ -206,7 +334,7 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
                     className="w-full bg-red-600 hover:bg-red-700"
                   >
                     <Square className="w-4 h-4 mr-2" />
-                    Stop Viewing
+                    {isViewing ? 'Stop Viewing' : connectionStatus === 'reconnecting' ? 'Cancel Reconnecting' : 'Cancel'}
                   </Button>
                 )}
                 
@@ -220,6 +348,30 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
                     {isMuted ? 'Unmute' : 'Mute'}
                   </Button>
                 )}
+
+                <div>
+                  <Label className="text-white">Media</Label>
+                  <Select
+                    value={mediaPreset}
+                    onValueChange={(preset) => setMediaPreset(preset as MediaPreset)}
+                    disabled={isViewing || isActive}
+                  >
+                    <SelectTrigger className="bg-gray-700 border-gray-600 text-white mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MEDIA_PRESETS) as MediaPreset[]).map(preset => (
+                        <SelectItem key={preset} value={preset}>{MEDIA_PRESETS[preset].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <CodecPicker
+                  value={codecPreferences}
+                  onChange={setCodecPreferences}
+                  disabled={isViewing || isActive}
+                />
               </CardContent>
             </Card>
 
@@ -235,6 +387,16 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
                       {connectionStatus}
                     </Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Lifecycle:</span>
+                    <span className="text-white">{lifecycleState}</span>
+                  </div>
+                  {connectionStatus === 'reconnecting' && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Reconnecting:</span>
+                      <span className="text-orange-400">Attempt {reconnectAttempt}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-300">Channel:</span>
                     <span className="text-white">{config.channelName}</span>
@@ -243,6 +405,14 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
                     <span className="text-gray-300">Region:</span>
                     <span className="text-white">{config.region}</span>
                   </div>
+                  {clockSkewMs !== null && Math.abs(clockSkewMs) >= 1000 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Clock skew:</span>
+                      <span className={Math.abs(clockSkewMs) >= MAX_CLOCK_SKEW_MS ? 'text-yellow-400' : 'text-white'}>
+                        {formatClockSkew(clockSkewMs)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-300">Audio:</span>
                     <span className={isMuted ? "text-red-400" : "text-green-400"}>
@@ -253,42 +423,29 @@ export default function Consumer({ config, onBack }: ConsumerProps) {
               </CardContent>
             </Card>
 
-            <Card className="bg-gray-800 border-gray-700">
-              <CardHeader>
-                <CardTitle className="text-white">Stream Quality</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Resolution:</span>
-                    <span className="text-white">1280x720</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Framerate:</span>
-                    <span className="text-white">30 FPS</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Bitrate:</span>
-                    <span className="text-white">2.5 Mbps</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-300">Latency:</span>
-                    <span className="text-green-400">~200ms</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <TalkbackPanel
+              state={talkbackState}
+              onModeChange={changeTalkbackMode}
+              onCameraChange={changeTalkbackCamera}
+              onTalkingChange={(talking) => talkbackRef.current?.setTalking(talking)}
+              cameraTrack={talkbackCamera}
+              disabled={!isViewing}
+            />
+
+            <StreamQualityPanel
+              snapshot={statsSnapshot}
+              stale={connectionStatus !== 'connected' || peerConnectionState !== 'connected'}
+            />
+
+            <MessagesPanel
+              messages={messages}
+              onSend={sendMessage}
+              disabled={!isViewing || !isChannelOpen}
+            />
+
+            {error && <ErrorCard error={error} />}
 
-            {error && (
-              <Card className="bg-red-900 border-red-700">
-                <CardHeader>
-                  <CardTitle className="text-white">Error</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-red-200 text-sm">{error}</p>
-                </CardContent>
-              </Card>
-            )}
+            <LogConsole log={sessionLogRef.current} />
           </div>
         </div>
       </div>
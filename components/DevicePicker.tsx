@@ -0,0 +1,61 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MediaDeviceList, MediaDeviceOption, MediaInputKind } from '@/lib/kvs-devices';
+
+interface DevicePickerProps {
+  devices: MediaDeviceList;
+  // Undefined until a device of that kind has been opened
+  cameraId?: string;
+  microphoneId?: string;
+  onChange: (kind: MediaInputKind, deviceId: string) => void;
+  disabled: boolean;
+}
+
+interface DeviceSelectProps {
+  label: string;
+  options: MediaDeviceOption[];
+  value?: string;
+  onChange: (deviceId: string) => void;
+  disabled: boolean;
+}
+
+function DeviceSelect({ label, options, value, onChange, disabled }: DeviceSelectProps) {
+  return (
+    <div>
+      <Label className="text-white">{label}</Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled || options.length === 0}>
+        <SelectTrigger className="bg-gray-700 border-gray-600 text-white mt-1">
+          <SelectValue placeholder={options.length === 0 ? 'None found' : 'Browser default'} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.deviceId} value={option.deviceId}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function DevicePicker({ devices, cameraId, microphoneId, onChange, disabled }: DevicePickerProps) {
+  return (
+    <div className="space-y-3">
+      <DeviceSelect
+        label="Camera"
+        options={devices.cameras}
+        value={cameraId}
+        onChange={deviceId => onChange('videoinput', deviceId)}
+        disabled={disabled}
+      />
+      <DeviceSelect
+        label="Microphone"
+        options={devices.microphones}
+        value={microphoneId}
+        onChange={deviceId => onChange('audioinput', deviceId)}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { KVSError, KVSErrorCode } from '@/lib/kvs-errors';
+
+const ERROR_TITLES: Record<KVSErrorCode, string> = {
+  INVALID_CREDENTIALS: 'Invalid Credentials',
+  ACCESS_DENIED: 'Access Denied',
+  CHANNEL_NOT_FOUND: 'Channel Not Found',
+  ENDPOINT_RESOLUTION_FAILED: 'Channel Lookup Failed',
+  SIGNALING_TIMEOUT: 'Signaling Timed Out',
+  MASTER_NOT_PRESENT: 'Producer Not Streaming',
+  ICE_FAILED: 'Connection Failed',
+  MEDIA_PERMISSION: 'Camera Unavailable',
+  ABORTED: 'Cancelled',
+  UNKNOWN: 'Error',
+};
+
+interface ErrorCardProps {
+  error: KVSError;
+}
+
+export default function ErrorCard({ error }: ErrorCardProps) {
+  return (
+    <Card className="bg-red-900 border-red-700">
+      <CardHeader>
+        <CardTitle className="text-white">{ERROR_TITLES[error.code]}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-red-200 text-sm">{error.message}</p>
+        <p className="text-gray-200 text-sm">{error.remediation}</p>
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-red-300 font-mono">{error.code}</span>
+          <span className="text-red-300">{error.retryable ? 'Temporary, safe to retry' : 'Needs a fix before retrying'}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronRight, Download, Trash2 } from 'lucide-react';
+import { LOG_LEVELS, LogEntry, LogLevel, SessionLog } from '@/lib/kvs-logger';
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: 'text-gray-400',
+  info: 'text-blue-400',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+};
+
+interface LogConsoleProps {
+  log: SessionLog;
+}
+
+function formatFields(entry: LogEntry): string {
+  return Object.keys(entry.fields).length > 0 ? JSON.stringify(entry.fields) : '';
+}
+
+export default function LogConsole({ log }: LogConsoleProps) {
+  const [open, setOpen] = useState(false);
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [entries, setEntries] = useState<LogEntry[]>(log.getEntries());
+
+  useEffect(() => {
+    setEntries(log.getEntries());
+    return log.subscribe(setEntries);
+  }, [log]);
+
+  const visibleEntries = entries.filter(entry => LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(minLevel));
+
+  const downloadLog = () => {
+    const blob = new Blob([log.toJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kvs-session-log-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CollapsibleTrigger asChild>
+            <button className="flex items-center justify-between w-full text-left">
+              <CardTitle className="text-white">Session Log</CardTitle>
+              <span className="flex items-center gap-2 text-gray-400 text-sm">
+                {entries.length} entries
+                {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </span>
+            </button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              {LOG_LEVELS.map(level => (
+                <Button
+                  key={level}
+                  onClick={() => setMinLevel(level)}
+                  variant="outline"
+                  size="sm"
+                  className={`border-gray-600 text-white hover:bg-gray-600 ${minLevel === level ? 'bg-gray-600' : 'bg-gray-700'}`}
+                >
+                  {level}
+                </Button>
+              ))}
+              <div className="flex-1" />
+              <Button
+                onClick={() => log.clear()}
+                variant="ghost"
+                size="sm"
+                className="text-gray-300 hover:text-white hover:bg-gray-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={downloadLog}
+                disabled={entries.length === 0}
+                variant="outline"
+                size="sm"
+                className="bg-gray-700 border-gray-600 text-white hover:bg-gray-600"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                JSON
+              </Button>
+            </div>
+            <div className="bg-gray-900 rounded-lg p-3 h-64 overflow-y-auto space-y-1 font-mono text-xs">
+              {visibleEntries.length === 0 ? (
+                <p className="text-gray-500">No log entries at this level</p>
+              ) : (
+                visibleEntries.map((entry, index) => (
+                  <p key={`${entry.timestamp}-${index}`} className="break-all">
+                    <span className="text-gray-500">{entry.timestamp.substring(11, 23)}</span>{' '}
+                    <span className={LEVEL_COLORS[entry.level]}>{entry.level.toUpperCase()}</span>{' '}
+                    <span className="text-gray-200">{entry.message}</span>{' '}
+                    <span className="text-gray-500">{formatFields(entry)}</span>
+                  </p>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Send } from 'lucide-react';
+
+export interface ChatMessage {
+  id: number;
+  from: string;
+  text: string;
+  outgoing: boolean;
+}
+
+interface MessagesPanelProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => void;
+  disabled: boolean;
+}
+
+export default function MessagesPanel({ messages, onSend, disabled }: MessagesPanelProps) {
+  const [draft, setDraft] = useState('');
+
+  const handleSend = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Messages</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="bg-gray-900 rounded-lg p-3 h-40 overflow-y-auto space-y-1">
+          {messages.length === 0 ? (
+            <p className="text-gray-500 text-sm">No messages yet</p>
+          ) : (
+            messages.map(message => (
+              <p key={message.id} className="text-sm">
+                <span className={message.outgoing ? 'text-blue-400' : 'text-green-400'}>
+                  {message.outgoing ? 'You' : message.from}:
+                </span>{' '}
+                <span className="text-gray-200">{message.text}</span>
+              </p>
+            ))
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+            placeholder={disabled ? 'Connect to send messages' : 'Type a message'}
+            disabled={disabled}
+            className="bg-gray-700 border-gray-600 text-white"
+          />
+          <Button
+            onClick={handleSend}
+            disabled={disabled || !draft.trim()}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,26 +5,74 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Video, VideoOff, Wifi, WifiOff } from 'lucide-react';
-import { KVSWebRTCClient } from '@/lib/kvs-webrtc';
+import { CodecPreferences, ConnectionState, KVSConfig, KVSWebRTCClient, MAX_VIEWERS, NegotiatedCodecs } from '@/lib/kvs-webrtc';
+import { DataChannelMessageData } from '@/lib/kvs-events';
+import { MAX_CLOCK_SKEW_MS, formatClockSkew } from '@/lib/kvs-clock-skew';
+import MessagesPanel, { ChatMessage } from '@/components/MessagesPanel';
+import ErrorCard from '@/components/ErrorCard';
+import LogConsole from '@/components/LogConsole';
+import StatsDashboard from '@/components/StatsDashboard';
+import CodecPicker from '@/components/CodecPicker';
+import QualityPanel from '@/components/QualityPanel';
+import AdaptiveBitratePanel from '@/components/AdaptiveBitratePanel';
+import DevicePicker from '@/components/DevicePicker';
+import TalkbackAudioPanel, { TalkbackSource } from '@/components/TalkbackAudioPanel';
+import { KVSError, MediaPermissionError, toKVSError } from '@/lib/kvs-errors';
+import { SessionLog, consoleLogger } from '@/lib/kvs-logger';
+import { StatsHistory } from '@/lib/kvs-stats-history';
+import { VideoEncodingOptions } from '@/lib/kvs-encoding';
+import { BitrateDecision } from '@/lib/kvs-adaptive-bitrate';
+import {
+  DEFAULT_VIDEO_CONSTRAINTS,
+  MediaDeviceList,
+  MediaInputKind,
+  listMediaDevices,
+  openDeviceTrack,
+  pickFallbackDevice,
+  watchMediaDevices,
+} from '@/lib/kvs-devices';
 
 interface ProducerProps {
-  config: {
-    region: string;
-    accessKeyId: string;
-    secretAccessKey: string;
-    channelName: string;
-  };
+  config: KVSConfig;
   onBack: () => void;
 }
 
 export default function Producer({ config, onBack }: ProducerProps) {
   const [isStreaming, setIsStreaming] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
-  const [error, setError] = useState<string>('');
+  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error'>('disconnected');
+  const [lifecycleState, setLifecycleState] = useState<ConnectionState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [clockSkewMs, setClockSkewMs] = useState<number | null>(null);
+  const [error, setError] = useState<KVSError | null>(null);
   const [cameraPermission, setCameraPermission] = useState<'prompt' | 'granted' | 'denied' | 'checking'>('checking');
+  const [viewers, setViewers] = useState<string[]>([]);
+  const [codecPreferences, setCodecPreferences] = useState<CodecPreferences>({});
+  const [negotiatedCodecs, setNegotiatedCodecs] = useState<NegotiatedCodecs>({});
+  const [videoEncoding, setVideoEncoding] = useState<VideoEncodingOptions>({});
+  const [adaptiveBitrate, setAdaptiveBitrate] = useState(false);
+  const [bitrateDecisions, setBitrateDecisions] = useState<BitrateDecision[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [openChannels, setOpenChannels] = useState(0);
+  const [devices, setDevices] = useState<MediaDeviceList>({ cameras: [], microphones: [] });
+  const [selectedDevices, setSelectedDevices] = useState<Partial<Record<MediaInputKind, string>>>({});
+  const [switchingDevice, setSwitchingDevice] = useState(false);
+  const [talkbackSources, setTalkbackSources] = useState<TalkbackSource[]>([]);
+  const messageIdRef = useRef(0);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const kvsClientRef = useRef<KVSWebRTCClient | null>(null);
+  // Outlives each client so the log of a failed attempt is still there to download
+  const sessionLogRef = useRef(new SessionLog(consoleLogger));
+  const statsHistoryRef = useRef(new StatsHistory('outbound'));
+
+  const appendMessage = (message: Omit<ChatMessage, 'id'>) => {
+    // Keep the log bounded, this is a live view rather than a transcript
+    setMessages(prev => [...prev.slice(-99), { ...message, id: messageIdRef.current++ }]);
+  };
+
+  const formatMessage = (data: DataChannelMessageData) => {
+    return typeof data === 'string' ? data : `[binary, ${data.byteLength} bytes]`;
+  };
 
   const checkCameraPermission = async () => {
     try {
@@ -37,42 +85,95 @@ export default function Producer({ config, onBack }: ProducerProps) {
       
       return result.state;
     } catch (err) {
-      console.log('Permission API not supported, will request directly');
+      sessionLogRef.current.debug('Permission API not supported, will request directly');
       return 'prompt';
     }
   };
 
+  // Records which device a track came from and recovers when that device goes away
+  const watchTrack = (track: MediaStreamTrack) => {
+    const kind: MediaInputKind = track.kind === 'video' ? 'videoinput' : 'audioinput';
+    const deviceId = track.getSettings().deviceId;
+    setSelectedDevices(prev => ({ ...prev, [kind]: deviceId }));
+    // Only fires when the browser ends the track, e.g. on unplug, not when we stop it ourselves
+    track.addEventListener('ended', () => {
+      sessionLogRef.current.warn('Media device disconnected', { kind, deviceId });
+      recoverDevice(kind, deviceId);
+    });
+  };
+
+  const recoverDevice = async (kind: MediaInputKind, lostDeviceId?: string) => {
+    const name = kind === 'videoinput' ? 'camera' : 'microphone';
+    try {
+      const available = await listMediaDevices();
+      setDevices(available);
+      const fallback = pickFallbackDevice(kind === 'videoinput' ? available.cameras : available.microphones, lostDeviceId);
+      if (!fallback) {
+        setError(new MediaPermissionError(`The ${name} was disconnected and no other ${name} is available`));
+        return;
+      }
+      await switchDevice(kind, fallback.deviceId);
+    } catch (err) {
+      setError(toKVSError(err, cause => new MediaPermissionError(`Failed to recover from a disconnected ${name}`, cause)));
+    }
+  };
+
+  // Viewers keep their connection, only the source of the sent track changes
+  const switchDevice = async (kind: MediaInputKind, deviceId: string) => {
+    const stream = streamRef.current;
+    if (!stream) {
+      setSelectedDevices(prev => ({ ...prev, [kind]: deviceId }));
+      return;
+    }
+
+    setSwitchingDevice(true);
+    try {
+      const oldTrack = stream.getTracks().find(track => track.kind === (kind === 'videoinput' ? 'video' : 'audio'));
+      const track = await openDeviceTrack(kind, deviceId);
+      if (kvsClientRef.current) {
+        await kvsClientRef.current.replaceTrack(track, oldTrack);
+      } else {
+        if (oldTrack) stream.removeTrack(oldTrack);
+        stream.addTrack(track);
+      }
+      oldTrack?.stop();
+      watchTrack(track);
+      sessionLogRef.current.info('Switched media device', { kind, deviceId, label: track.label });
+    } catch (err) {
+      const name = kind === 'videoinput' ? 'camera' : 'microphone';
+      setError(toKVSError(err, cause => new MediaPermissionError(`Failed to switch ${name}: ${String(cause)}`, cause)));
+    } finally {
+      setSwitchingDevice(false);
+    }
+  };
+
   const requestCameraPermission = async () => {
     setCameraPermission('checking');
-    setError('');
+    setError(null);
     
     try {
+      const { videoinput, audioinput } = selectedDevices;
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 }
-        },
-        audio: true
+        video: videoinput ? { ...DEFAULT_VIDEO_CONSTRAINTS, deviceId: { exact: videoinput } } : DEFAULT_VIDEO_CONSTRAINTS,
+        audio: audioinput ? { deviceId: { exact: audioinput } } : true
       });
       
       streamRef.current = stream;
+      stream.getTracks().forEach(watchTrack);
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
       setCameraPermission('granted');
+      // Device labels are only readable once access has been granted
+      listMediaDevices().then(setDevices, () => {});
     } catch (err) {
-      if (err instanceof Error) {
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          setCameraPermission('denied');
-          setError('Camera permission denied. Please enable camera access in your browser settings.');
-        } else if (err.name === 'NotFoundError') {
-          setError('No camera device found. Please connect a camera.');
-        } else {
-          setError(`Camera access failed: ${err.message}`);
-        }
+      if (err instanceof Error && (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError')) {
+        setCameraPermission('denied');
+        setError(new MediaPermissionError('Camera permission denied', err));
+      } else if (err instanceof Error && err.name === 'NotFoundError') {
+        setError(new MediaPermissionError('No camera device found', err));
       } else {
-        setError('Camera access failed: Unknown error');
+        setError(toKVSError(err, cause => new MediaPermissionError(`Camera access failed: ${String(cause)}`, cause)));
       }
     }
   };
@@ -86,7 +187,7 @@ export default function Producer({ config, onBack }: ProducerProps) {
       await requestCameraPermission();
     } else if (permission === 'denied') {
       setCameraPermission('denied');
-      setError('Camera permission denied. Please enable camera access in your browser settings.');
+      setError(new MediaPermissionError('Camera permission denied'));
     }
   };
 
@@ -103,39 +204,117 @@ export default function Producer({ config, onBack }: ProducerProps) {
   const startStreaming = async () => {
     try {
       setConnectionStatus('connecting');
-      setError('');
+      setError(null);
+      setBitrateDecisions([]);
+      statsHistoryRef.current.clear();
 
       if (!streamRef.current) {
-        setError('No camera stream available');
+        setError(new MediaPermissionError('No camera stream available'));
         setConnectionStatus('error');
         return;
       }
 
       // Initialize KVS WebRTC client as master (producer)
-      kvsClientRef.current = new KVSWebRTCClient(config, 'MASTER');
+      kvsClientRef.current = new KVSWebRTCClient({
+        ...config,
+        codecs: codecPreferences,
+        encoding: { video: videoEncoding },
+        adaptiveBitrate,
+        logger: sessionLogRef.current,
+        logLevel: 'debug',
+      }, 'MASTER');
 
       // Set up event handlers
-      kvsClientRef.current.onConnectionStateChange((state) => {
-        console.log('Connection state:', state);
+      // Each viewer has its own peer connection, so one viewer leaving does not stop the stream
+      kvsClientRef.current.on('viewerConnected', (remoteClientId) => {
+        sessionLogRef.current.info('Viewer connected', { remoteClientId });
+        setViewers(prev => prev.includes(remoteClientId) ? prev : [...prev, remoteClientId]);
+      });
+
+      kvsClientRef.current.on('viewerDisconnected', (remoteClientId) => {
+        sessionLogRef.current.info('Viewer disconnected', { remoteClientId });
+        setViewers(prev => prev.filter(id => id !== remoteClientId));
+        setTalkbackSources(prev => prev.filter(source => source.remoteClientId !== remoteClientId));
+      });
+
+      // Viewers with talkback on send their microphone, and maybe camera, back. A two-way viewer's reserved
+      // transceivers deliver muted tracks until talkback starts, so only tracks carrying media count.
+      const isReceiving = (track: MediaStreamTrack) => track.readyState === 'live' && !track.muted;
+      const updateTalkbackSource = (stream: MediaStream, remoteClientId: string) => {
+        const source = {
+          remoteClientId,
+          stream,
+          hasAudio: stream.getAudioTracks().some(isReceiving),
+          hasVideo: stream.getVideoTracks().some(isReceiving),
+        };
+        setTalkbackSources(prev => {
+          const others = prev.filter(existing => existing.remoteClientId !== remoteClientId);
+          return source.hasAudio ? [...others, source] : others;
+        });
+      };
+      kvsClientRef.current.on('remoteTrackAdded', (track, stream, remoteClientId) => {
+        const update = () => updateTalkbackSource(stream, remoteClientId);
+        track.addEventListener('mute', update);
+        track.addEventListener('unmute', update);
+        update();
+      });
+      kvsClientRef.current.on('remoteTrackRemoved', (_track, stream, remoteClientId) => updateTalkbackSource(stream, remoteClientId));
+
+      // Viewers open the data channel with their offer, the master answers on it
+      kvsClientRef.current.createDataChannel();
+      kvsClientRef.current.on('dataChannelOpen', () => setOpenChannels(prev => prev + 1));
+      kvsClientRef.current.on('dataChannelClose', () => setOpenChannels(prev => Math.max(0, prev - 1)));
+      kvsClientRef.current.on('message', (data, remoteClientId) => {
+        appendMessage({ from: remoteClientId, text: formatMessage(data), outgoing: false });
+      });
+
+      kvsClientRef.current.on('bitrateAdaptation', (decision) => {
+        setBitrateDecisions(prev => [...prev.slice(-49), decision]);
+        statsHistoryRef.current.addAnnotation({
+          type: 'qualityChange',
+          label: `Adaptive ${decision.direction}: ${decision.reason}`,
+          remoteClientId: decision.remoteClientId,
+        });
+      });
+
+      kvsClientRef.current.on('clockSkew', ({ offsetMs }) => setClockSkewMs(offsetMs));
+
+      kvsClientRef.current.on('stateChange', (state) => {
+        setLifecycleState(state);
         switch (state) {
+          case 'resolving':
+          case 'signaling':
+            setConnectionStatus('connecting');
+            break;
+          // Signaling is open, the master is live and waiting for viewers
           case 'connected':
             setConnectionStatus('connected');
             setIsStreaming(true);
+            setReconnectAttempt(0);
             break;
-          case 'failed':
-          case 'disconnected':
-            setConnectionStatus('error');
-            setIsStreaming(false);
-            break;
-          case 'connecting':
-            setConnectionStatus('connecting');
+          case 'reconnecting':
+            setConnectionStatus('reconnecting');
             break;
         }
       });
 
-      kvsClientRef.current.onError((error) => {
-        console.error('KVS WebRTC error:', error);
-        setError(`Streaming error: ${error.message}`);
+      kvsClientRef.current.on('reconnecting', (attempt) => {
+        setReconnectAttempt(attempt);
+        statsHistoryRef.current.addAnnotation({ type: 'reconnect', label: `Attempt ${attempt}` });
+      });
+      kvsClientRef.current.on('reconnected', () => {
+        statsHistoryRef.current.addAnnotation({ type: 'reconnect', label: 'Reconnected' });
+      });
+
+      kvsClientRef.current.on('statsSnapshot', (snapshot) => statsHistoryRef.current.addSnapshot(snapshot));
+      kvsClientRef.current.on('negotiation', ({ type, direction, remoteClientId }) => {
+        if (type !== 'iceRestart') return;
+        statsHistoryRef.current.addAnnotation({ type: 'iceRestart', label: `Restart ${direction}`, remoteClientId });
+      });
+
+      kvsClientRef.current.on('error', (error) => {
+        sessionLogRef.current.error('KVS WebRTC error', { code: error.code, message: error.message });
+        setError(error);
         setConnectionStatus('error');
         setIsStreaming(false);
       });
@@ -144,8 +323,11 @@ export default function Producer({ config, onBack }: ProducerProps) {
       await kvsClientRef.current.connect(streamRef.current);
 
     } catch (err) {
+      const kvsError = toKVSError(err);
+      // Stopped while connecting
+      if (kvsError.code === 'ABORTED') return;
       setConnectionStatus('error');
-      setError(`Streaming failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setError(kvsError);
       setIsStreaming(false);
     }
   };
@@ -153,6 +335,10 @@ export default function Producer({ config, onBack }: ProducerProps) {
   const stopStreaming = () => {
     setIsStreaming(false);
     setConnectionStatus('disconnected');
+    setReconnectAttempt(0);
+    setViewers([]);
+    setOpenChannels(0);
+    setTalkbackSources([]);
     if (kvsClientRef.current) {
       kvsClientRef.current.disconnect();
       kvsClientRef.current = null;
@@ -168,17 +354,59 @@ export default function Producer({ config, onBack }: ProducerProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // The client is connecting or retrying and can only be cancelled
+  const isActive = connectionStatus !== 'disconnected' && connectionStatus !== 'error';
+
+  useEffect(() => {
+    return watchMediaDevices(setDevices, err => {
+      sessionLogRef.current.warn('Failed to list media devices', { error: err });
+    });
+  }, []);
+
+  // The codec is only known once media flows, and can change when a viewer renegotiates
+  useEffect(() => {
+    if (viewers.length === 0) {
+      setNegotiatedCodecs({});
+      return;
+    }
+    const updateCodecs = () => {
+      kvsClientRef.current?.getNegotiatedCodecs().then(setNegotiatedCodecs).catch(() => {});
+    };
+    updateCodecs();
+    const interval = setInterval(updateCodecs, 2000);
+    return () => clearInterval(interval);
+  }, [viewers.length]);
+
+  // Applies to every viewer immediately while streaming, and to the next stream otherwise
+  const updateVideoEncoding = (update: VideoEncodingOptions) => {
+    setVideoEncoding(prev => ({ ...prev, ...update }));
+    if (kvsClientRef.current) {
+      statsHistoryRef.current.addAnnotation({ type: 'qualityChange', label: 'Encoding changed manually' });
+    }
+    kvsClientRef.current?.setEncodingParameters({ video: update }).catch(err => {
+      sessionLogRef.current.warn('Failed to update encoding parameters', { error: err });
+    });
+  };
+
+  const sendMessage = (text: string) => {
+    // Broadcast to every connected viewer
+    if (kvsClientRef.current && kvsClientRef.current.send(text) > 0) {
+      appendMessage({ from: 'Producer', text, outgoing: true });
+    }
+  };
+
   const getStatusColor = () => {
     switch (connectionStatus) {
       case 'connected': return 'bg-green-600';
       case 'connecting': return 'bg-yellow-600';
+      case 'reconnecting': return 'bg-orange-600';
       case 'error': return 'bg-red-600';
       default: return 'bg-gray-600';
     }
   };
 
   const getStatusIcon = () => {
-    return connectionStatus === 'connected' || connectionStatus === 'connecting' ? 
+    return connectionStatus === 'connected' || connectionStatus === 'connecting' || connectionStatus === 'reconnecting' ? 
       <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />;
   };
 
@@ -201,7 +429,7 @@ export default function Producer({ config, onBack }: ProducerProps) {
         </div>
 
         <div className="grid lg:grid-cols-3 gap-8">
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card className="bg-gray-800 border-gray-700">
               <CardHeader>
                 <CardTitle className="text-white flex items-center justify-between">
@@ -263,6 +491,10 @@ export default function Producer({ config, onBack }: ProducerProps) {
                 </div>
               </CardContent>
             </Card>
+
+            <StatsDashboard history={statsHistoryRef.current} seriesLabel={(remoteClientId) => remoteClientId} />
+
+            <TalkbackAudioPanel sources={talkbackSources} />
           </div>
 
           <div className="space-y-6">
@@ -271,14 +503,14 @@ export default function Producer({ config, onBack }: ProducerProps) {
                 <CardTitle className="text-white">Stream Controls</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {!isStreaming ? (
+                {!isStreaming && !isActive ? (
                   <Button
                     onClick={startStreaming}
-                    disabled={!streamRef.current || connectionStatus === 'connecting'}
+                    disabled={!streamRef.current}
                     className="w-full bg-blue-600 hover:bg-blue-700"
                   >
                     <Video className="w-4 h-4 mr-2" />
-                    {connectionStatus === 'connecting' ? 'Connecting...' : 'Start Streaming'}
+                    Start Streaming
                   </Button>
                 ) : (
                   <Button
@@ -286,12 +518,37 @@ export default function Producer({ config, onBack }: ProducerProps) {
                     className="w-full bg-red-600 hover:bg-red-700"
                   >
                     <VideoOff className="w-4 h-4 mr-2" />
-                    Stop Streaming
+                    {isStreaming ? 'Stop Streaming' : connectionStatus === 'reconnecting' ? 'Cancel Reconnecting' : 'Cancel'}
                   </Button>
                 )}
+
+                <DevicePicker
+                  devices={devices}
+                  cameraId={selectedDevices.videoinput}
+                  microphoneId={selectedDevices.audioinput}
+                  onChange={switchDevice}
+                  disabled={switchingDevice || connectionStatus === 'connecting'}
+                />
+
+                <CodecPicker
+                  value={codecPreferences}
+                  onChange={setCodecPreferences}
+                  disabled={isStreaming || connectionStatus === 'connecting'}
+                />
               </CardContent>
             </Card>
 
+            <AdaptiveBitratePanel
+              enabled={adaptiveBitrate}
+              onEnabledChange={setAdaptiveBitrate}
+              disabled={isStreaming || connectionStatus === 'connecting'}
+              decisions={bitrateDecisions}
+              viewers={viewers}
+            />
+
+            {/* Manual caps would fight the controller, which sets them per viewer */}
+            <QualityPanel value={videoEncoding} onChange={updateVideoEncoding} disabled={adaptiveBitrate} />
+
             <Card className="bg-gray-800 border-gray-700">
               <CardHeader>
                 <CardTitle className="text-white">Connection Status</CardTitle>
@@ -315,6 +572,16 @@ export default function Producer({ config, onBack }: ProducerProps) {
                       {cameraPermission}
                     </Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-300">Lifecycle:</span>
+                    <span className="text-white">{lifecycleState}</span>
+                  </div>
+                  {connectionStatus === 'reconnecting' && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Reconnecting:</span>
+                      <span className="text-orange-400">Attempt {reconnectAttempt}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-300">Channel:</span>
                     <span className="text-white">{config.channelName}</span>
@@ -323,6 +590,32 @@ export default function Producer({ config, onBack }: ProducerProps) {
                     <span className="text-gray-300">Region:</span>
                     <span className="text-white">{config.region}</span>
                   </div>
+                  {clockSkewMs !== null && Math.abs(clockSkewMs) >= 1000 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Clock skew:</span>
+                      <span className={Math.abs(clockSkewMs) >= MAX_CLOCK_SKEW_MS ? 'text-yellow-400' : 'text-white'}>
+                        {formatClockSkew(clockSkewMs)}
+                      </span>
+                    </div>
+                  )}
+                  {negotiatedCodecs.video && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Video codec:</span>
+                      <span className="text-white">{negotiatedCodecs.video}</span>
+                    </div>
+                  )}
+                  {negotiatedCodecs.audio && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Audio codec:</span>
+                      <span className="text-white">{negotiatedCodecs.audio}</span>
+                    </div>
+                  )}
+                  {isStreaming && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Viewers:</span>
+                      <span className="text-white">{viewers.length} / {MAX_VIEWERS}</span>
+                    </div>
+                  )}
                   {isStreaming && (
                     <div className="flex justify-between">
                       <span className="text-gray-300">Duration:</span>
@@ -333,16 +626,15 @@ export default function Producer({ config, onBack }: ProducerProps) {
               </CardContent>
             </Card>
 
-            {error && (
-              <Card className="bg-red-900 border-red-700">
-                <CardHeader>
-                  <CardTitle className="text-white">Error</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-red-200 text-sm">{error}</p>
-                </CardContent>
-              </Card>
-            )}
+            <MessagesPanel
+              messages={messages}
+              onSend={sendMessage}
+              disabled={!isStreaming || openChannels === 0}
+            />
+
+            {error && <ErrorCard error={error} />}
+
+            <LogConsole log={sessionLogRef.current} />
           </div>
         </div>
       </div>
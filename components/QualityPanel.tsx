@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QUALITY_PRESETS, QualityPreset, VideoEncodingOptions } from '@/lib/kvs-encoding';
+
+// The top of the bitrate slider means no cap
+const MAX_BITRATE_KBPS = 5000;
+const NO_LIMIT = 'none';
+
+const FRAMERATE_OPTIONS = [30, 24, 15, 10, 5];
+
+const RESOLUTION_OPTIONS = [
+  { scale: 1, label: 'Full' },
+  { scale: 1.5, label: '2/3' },
+  { scale: 2, label: '1/2' },
+  { scale: 4, label: '1/4' },
+];
+
+const DEGRADATION_OPTIONS: { value: RTCDegradationPreference; label: string }[] = [
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'maintain-framerate', label: 'Keep framerate' },
+  { value: 'maintain-resolution', label: 'Keep resolution' },
+];
+
+interface QualityPanelProps {
+  value: VideoEncodingOptions;
+  // Receives only the fields that changed
+  onChange: (update: VideoEncodingOptions) => void;
+  disabled?: boolean;
+}
+
+function toKbps(maxBitrate?: number): number {
+  return maxBitrate ? Math.round(maxBitrate / 1000) : MAX_BITRATE_KBPS;
+}
+
+export default function QualityPanel({ value, onChange, disabled }: QualityPanelProps) {
+  // The slider shows its position while dragging; the sender is only updated on release
+  const [bitrateKbps, setBitrateKbps] = useState(toKbps(value.maxBitrate));
+
+  useEffect(() => {
+    setBitrateKbps(toKbps(value.maxBitrate));
+  }, [value.maxBitrate]);
+
+  const applyPreset = (preset: QualityPreset) => onChange(QUALITY_PRESETS[preset]);
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Video Quality</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(QUALITY_PRESETS) as QualityPreset[]).map(preset => (
+            <Button
+              key={preset}
+              onClick={() => applyPreset(preset)}
+              disabled={disabled}
+              variant="outline"
+              size="sm"
+              className="bg-gray-700 border-gray-600 text-white hover:bg-gray-600 capitalize"
+            >
+              {preset}
+            </Button>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex justify-between mb-2">
+            <Label className="text-gray-300">Max bitrate</Label>
+            <span className="text-white text-sm">
+              {bitrateKbps >= MAX_BITRATE_KBPS ? 'No limit' : `${bitrateKbps} kbps`}
+            </span>
+          </div>
+          <Slider
+            min={100}
+            max={MAX_BITRATE_KBPS}
+            step={100}
+            value={[bitrateKbps]}
+            disabled={disabled}
+            onValueChange={([kbps]) => setBitrateKbps(kbps)}
+            onValueCommit={([kbps]) => onChange({ maxBitrate: kbps >= MAX_BITRATE_KBPS ? undefined : kbps * 1000 })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-gray-300">Max framerate</Label>
+            <Select
+              value={value.maxFramerate ? String(value.maxFramerate) : NO_LIMIT}
+              onValueChange={(framerate) => onChange({ maxFramerate: framerate === NO_LIMIT ? undefined : Number(framerate) })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LIMIT}>No limit</SelectItem>
+                {FRAMERATE_OPTIONS.map(framerate => (
+                  <SelectItem key={framerate} value={String(framerate)}>{framerate} fps</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-gray-300">Resolution</Label>
+            <Select
+              value={String(value.scaleResolutionDownBy || 1)}
+              onValueChange={(scale) => onChange({ scaleResolutionDownBy: Number(scale) })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESOLUTION_OPTIONS.map(option => (
+                  <SelectItem key={option.scale} value={String(option.scale)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-gray-300">When bandwidth drops</Label>
+          <Select
+            value={value.degradationPreference || 'balanced'}
+            onValueChange={(preference) => onChange({ degradationPreference: preference as RTCDegradationPreference })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="bg-gray-700 border-gray-600 text-white mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEGRADATION_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
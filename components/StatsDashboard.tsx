@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ChevronDown, ChevronRight, Pause, Play } from 'lucide-react';
+import {
+  STATS_METRICS,
+  StatsAnnotationType,
+  StatsHistory,
+  StatsHistoryState,
+  StatsMetric,
+  toStatsRows,
+} from '@/lib/kvs-stats-history';
+
+const SERIES_COLORS = ['#60a5fa', '#34d399', '#fbbf24', '#f472b6', '#a78bfa', '#f87171', '#22d3ee', '#a3e635', '#fb923c', '#e879f9'];
+
+const ANNOTATION_STYLES: Record<StatsAnnotationType, { color: string; label: string }> = {
+  reconnect: { color: '#fb923c', label: 'Reconnect' },
+  iceRestart: { color: '#c084fc', label: 'ICE restart' },
+  qualityChange: { color: '#94a3b8', label: 'Quality' },
+};
+
+// Zoom levels; the history keeps the longest one
+const WINDOWS = [
+  { ms: 30 * 1000, label: '30s' },
+  { ms: 60 * 1000, label: '1m' },
+  { ms: 5 * 60 * 1000, label: '5m' },
+];
+
+interface StatsDashboardProps {
+  history: StatsHistory;
+  // Names the series, e.g. 'Viewer' on the master side
+  seriesLabel: (seriesId: string) => string;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString();
+}
+
+export default function StatsDashboard({ history, seriesLabel }: StatsDashboardProps) {
+  const [open, setOpen] = useState(true);
+  const [metric, setMetric] = useState<StatsMetric>('bitrate');
+  const [windowMs, setWindowMs] = useState(WINDOWS[1].ms);
+  const [liveState, setLiveState] = useState<StatsHistoryState>(history.getState());
+  // While paused the chart keeps showing the moment it was paused at
+  const [paused, setPaused] = useState<{ state: StatsHistoryState; time: number } | null>(null);
+
+  useEffect(() => {
+    setLiveState(history.getState());
+    return history.subscribe(setLiveState);
+  }, [history]);
+
+  const togglePause = () => {
+    setPaused(paused ? null : { state: liveState, time: Date.now() });
+  };
+
+  const state = paused ? paused.state : liveState;
+  const to = paused ? paused.time : Date.now();
+  const from = to - windowMs;
+  const rows = toStatsRows(state, metric, from, to);
+  const seriesIds = Array.from(state.series.keys());
+  const annotations = state.annotations.filter(annotation => annotation.time >= from && annotation.time <= to);
+
+  const chartConfig: ChartConfig = {};
+  seriesIds.forEach(seriesId => {
+    chartConfig[seriesId] = { label: seriesLabel(seriesId) };
+  });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CollapsibleTrigger asChild>
+            <button className="flex items-center justify-between w-full text-left">
+              <CardTitle className="text-white">Live Metrics</CardTitle>
+              <span className="flex items-center gap-2 text-gray-400 text-sm">
+                {paused ? 'Paused' : `${STATS_METRICS[metric].label} (${STATS_METRICS[metric].unit})`}
+                {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </span>
+            </button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(STATS_METRICS) as StatsMetric[]).map(key => (
+                <Button
+                  key={key}
+                  onClick={() => setMetric(key)}
+                  variant="outline"
+                  size="sm"
+                  className={`border-gray-600 text-white hover:bg-gray-600 ${metric === key ? 'bg-gray-600' : 'bg-gray-700'}`}
+                >
+                  {STATS_METRICS[key].label}
+                </Button>
+              ))}
+              <div className="flex-1" />
+              {WINDOWS.map(option => (
+                <Button
+                  key={option.ms}
+                  onClick={() => setWindowMs(option.ms)}
+                  variant="ghost"
+                  size="sm"
+                  className={`text-gray-300 hover:text-white hover:bg-gray-700 ${windowMs === option.ms ? 'bg-gray-700 text-white' : ''}`}
+                >
+                  {option.label}
+                </Button>
+              ))}
+              <Button
+                onClick={togglePause}
+                variant="outline"
+                size="sm"
+                className="bg-gray-700 border-gray-600 text-white hover:bg-gray-600"
+              >
+                {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            {seriesIds.length === 0 ? (
+              <p className="text-gray-400 text-sm">Metrics appear once media is flowing.</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                <LineChart data={rows} margin={{ top: 16, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid stroke="#374151" vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={[from, to]}
+                    allowDataOverflow
+                    tickFormatter={formatTime}
+                    stroke="#9ca3af"
+                    minTickGap={40}
+                  />
+                  <YAxis stroke="#9ca3af" width={48} domain={[0, 'auto']} />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time)} />}
+                  />
+                  {annotations.map(annotation => (
+                    <ReferenceLine
+                      key={`${annotation.type}-${annotation.time}-${annotation.remoteClientId || ''}`}
+                      x={annotation.time}
+                      stroke={ANNOTATION_STYLES[annotation.type].color}
+                      strokeDasharray="4 4"
+                    />
+                  ))}
+                  {seriesIds.map((seriesId, index) => (
+                    <Line
+                      key={seriesId}
+                      dataKey={seriesId}
+                      stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            )}
+
+            {annotations.length > 0 && (
+              <div className="space-y-1 text-xs">
+                {annotations.slice(-5).reverse().map(annotation => (
+                  <div key={`${annotation.type}-${annotation.time}-${annotation.remoteClientId || ''}`} className="flex gap-2">
+                    <span className="text-gray-500">{formatTime(annotation.time)}</span>
+                    <span style={{ color: ANNOTATION_STYLES[annotation.type].color }}>{ANNOTATION_STYLES[annotation.type].label}</span>
+                    <span className="text-gray-300 truncate">
+                      {annotation.remoteClientId ? `${seriesLabel(annotation.remoteClientId)}: ` : ''}{annotation.label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
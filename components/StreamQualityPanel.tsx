@@ -0,0 +1,86 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CandidatePairStats, PeerStatsSnapshot } from '@/lib/kvs-stats';
+
+const UNKNOWN = '—';
+
+interface StreamQualityPanelProps {
+  snapshot?: PeerStatsSnapshot;
+  // The last values are kept on screen but no longer describe the stream
+  stale: boolean;
+}
+
+function formatBitrate(bitrate?: number): string {
+  if (bitrate === undefined) return UNKNOWN;
+  return bitrate >= 1000000 ? `${(bitrate / 1000000).toFixed(2)} Mbps` : `${Math.round(bitrate / 1000)} kbps`;
+}
+
+function formatNumber(value: number | undefined, unit: string, digits = 0): string {
+  return value === undefined ? UNKNOWN : `${value.toFixed(digits)}${unit}`;
+}
+
+// A relay on either side means media goes through TURN
+function formatConnectionType(pair?: CandidatePairStats): string {
+  if (!pair?.local.candidateType) return UNKNOWN;
+  const type = pair.remote.candidateType === 'relay' ? 'relay' : pair.local.candidateType;
+  const protocol = pair.local.relayProtocol || pair.local.protocol;
+  return protocol ? `${type} (${protocol})` : type;
+}
+
+function getLossColor(packetLoss?: number): string {
+  if (packetLoss === undefined || packetLoss < 1) return 'text-white';
+  return packetLoss < 5 ? 'text-yellow-400' : 'text-red-400';
+}
+
+function getRttColor(rttMs?: number): string {
+  if (rttMs === undefined) return 'text-white';
+  if (rttMs < 150) return 'text-green-400';
+  return rttMs < 400 ? 'text-yellow-400' : 'text-red-400';
+}
+
+export default function StreamQualityPanel({ snapshot, stale }: StreamQualityPanelProps) {
+  const video = snapshot?.tracks.find(track => track.direction === 'inbound' && track.kind === 'video');
+  const audio = snapshot?.tracks.find(track => track.direction === 'inbound' && track.kind === 'audio');
+
+  const rows = [
+    {
+      label: 'Resolution',
+      value: video?.frameWidth && video.frameHeight ? `${video.frameWidth}x${video.frameHeight}` : UNKNOWN,
+    },
+    { label: 'Framerate', value: formatNumber(video?.framesPerSecond, ' FPS') },
+    { label: 'Bitrate', value: formatBitrate(snapshot?.inboundBitrate) },
+    { label: 'Packet loss', value: formatNumber(video?.packetLoss, '%', 1), color: getLossColor(video?.packetLoss) },
+    { label: 'Jitter', value: formatNumber(video?.jitterMs, ' ms') },
+    { label: 'Round trip', value: formatNumber(snapshot?.rttMs, ' ms'), color: getRttColor(snapshot?.rttMs) },
+    { label: 'Connection', value: formatConnectionType(snapshot?.candidatePair) },
+    { label: 'Video codec', value: video?.codec || UNKNOWN },
+    { label: 'Audio codec', value: audio?.codec || UNKNOWN },
+  ];
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          Stream Quality
+          {snapshot && stale && <Badge className="bg-gray-600 text-white">Stale</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!snapshot ? (
+          <p className="text-gray-400 text-sm">Waiting for media statistics...</p>
+        ) : (
+          <div className={`space-y-3 ${stale ? 'opacity-50' : ''}`}>
+            {rows.map(row => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-gray-300">{row.label}:</span>
+                <span className={stale ? 'text-gray-400' : row.color || 'text-white'}>{row.value}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Volume2, VolumeX } from 'lucide-react';
+
+export interface TalkbackSource {
+  remoteClientId: string;
+  stream: MediaStream;
+  hasAudio: boolean;
+  hasVideo: boolean;
+}
+
+interface TalkbackAudioPanelProps {
+  sources: TalkbackSource[];
+}
+
+interface TalkbackRowProps {
+  source: TalkbackSource;
+  muted: boolean;
+  onToggleMute: () => void;
+}
+
+function TalkbackRow({ source, muted, onToggleMute }: TalkbackRowProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.srcObject = source.stream;
+    if (videoRef.current) videoRef.current.srcObject = source.stream;
+  }, [source.stream, source.hasVideo]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-300 text-sm truncate">{source.remoteClientId}</span>
+        <Button
+          onClick={onToggleMute}
+          size="sm"
+          variant="outline"
+          className="bg-gray-700 border-gray-600 text-white hover:bg-gray-600"
+        >
+          {muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+        </Button>
+      </div>
+      <audio ref={audioRef} autoPlay muted={muted} />
+      {source.hasVideo && (
+        <div className="bg-black rounded-lg overflow-hidden aspect-video">
+          {/* Sound comes from the audio element so muting applies to one place */}
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Plays what each viewer sends back, e.g. for intercom use. Sources are listed while their
+// microphone is live; a viewer that turns talkback off stops sending, which mutes the track.
+export default function TalkbackAudioPanel({ sources }: TalkbackAudioPanelProps) {
+  const [mutedViewers, setMutedViewers] = useState<Set<string>>(new Set());
+  const allMuted = sources.length > 0 && sources.every(source => mutedViewers.has(source.remoteClientId));
+
+  const toggleMute = (remoteClientId: string) => {
+    setMutedViewers(prev => {
+      const next = new Set(prev);
+      if (!next.delete(remoteClientId)) next.add(remoteClientId);
+      return next;
+    });
+  };
+
+  const toggleMuteAll = () => {
+    setMutedViewers(allMuted ? new Set() : new Set(sources.map(source => source.remoteClientId)));
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          Talkback
+          {sources.length > 1 && (
+            <Button
+              onClick={toggleMuteAll}
+              size="sm"
+              variant="ghost"
+              className="text-gray-300 hover:text-white hover:bg-gray-700"
+            >
+              {allMuted ? 'Unmute all' : 'Mute all'}
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sources.length === 0 ? (
+          <p className="text-gray-400 text-sm">Viewers that turn on talkback are heard here.</p>
+        ) : (
+          sources.map(source => (
+            <TalkbackRow
+              key={source.remoteClientId}
+              source={source}
+              muted={mutedViewers.has(source.remoteClientId)}
+              onToggleMute={() => toggleMute(source.remoteClientId)}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
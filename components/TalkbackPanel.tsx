@@ -0,0 +1,104 @@
+'use client';
+
+import { KeyboardEvent, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Mic, MicOff } from 'lucide-react';
+import { TalkbackMode, TalkbackState } from '@/lib/kvs-talkback';
+
+const MODES: { value: TalkbackMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'pushToTalk', label: 'Push to talk' },
+  { value: 'continuous', label: 'Continuous' },
+];
+
+interface TalkbackPanelProps {
+  state: TalkbackState;
+  onModeChange: (mode: TalkbackMode) => void;
+  onCameraChange: (camera: boolean) => void;
+  onTalkingChange: (talking: boolean) => void;
+  cameraTrack?: MediaStreamTrack;
+  disabled: boolean;
+}
+
+export default function TalkbackPanel({ state, onModeChange, onCameraChange, onTalkingChange, cameraTrack, disabled }: TalkbackPanelProps) {
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = cameraTrack ? new MediaStream([cameraTrack]) : null;
+    }
+  }, [cameraTrack]);
+
+  // Key repeat would otherwise toggle on every repeated keydown
+  const handleKey = (talking: boolean) => (event: KeyboardEvent) => {
+    if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+      event.preventDefault();
+      onTalkingChange(talking);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          Talkback
+          {state.talking ? <Mic className="w-4 h-4 text-green-400" /> : <MicOff className="w-4 h-4 text-gray-400" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          {MODES.map(mode => (
+            <Button
+              key={mode.value}
+              onClick={() => onModeChange(mode.value)}
+              disabled={disabled}
+              variant="outline"
+              size="sm"
+              className={`flex-1 border-gray-600 text-white hover:bg-gray-600 ${state.mode === mode.value ? 'bg-gray-600' : 'bg-gray-700'}`}
+            >
+              {mode.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="talkbackCamera" className="text-gray-300 text-sm">Send my camera too</Label>
+          <Switch
+            id="talkbackCamera"
+            checked={state.camera}
+            onCheckedChange={onCameraChange}
+            disabled={disabled}
+          />
+        </div>
+
+        {state.mode === 'pushToTalk' && (
+          <Button
+            onPointerDown={() => onTalkingChange(true)}
+            onPointerUp={() => onTalkingChange(false)}
+            onPointerLeave={() => onTalkingChange(false)}
+            onKeyDown={handleKey(true)}
+            onKeyUp={handleKey(false)}
+            disabled={disabled}
+            className={`w-full select-none ${state.talking ? 'bg-green-600 hover:bg-green-600' : 'bg-blue-600 hover:bg-blue-700'}`}
+          >
+            <Mic className="w-4 h-4 mr-2" />
+            {state.talking ? 'Talking...' : 'Hold to talk'}
+          </Button>
+        )}
+
+        {state.mode === 'continuous' && (
+          <p className="text-gray-400 text-sm">The producer hears your microphone until you turn talkback off.</p>
+        )}
+
+        {cameraTrack && (
+          <div className="bg-black rounded-lg overflow-hidden aspect-video">
+            <video ref={previewRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
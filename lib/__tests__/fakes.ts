@@ -0,0 +1,419 @@
+import { vi } from 'vitest';
+import { TypedEventEmitter } from '../kvs-events';
+import { SignalingTransport, SignalingTransportEvents } from '../kvs-signaling-transport';
+
+export const TEST_REGION = 'us-west-2';
+export const TEST_CHANNEL_ARN = 'arn:aws:kinesisvideo:us-west-2:123456789012:channel/test-channel/1234567890123';
+export const TEST_WSS_ENDPOINT = 'wss://m-12345678.kinesisvideo.us-west-2.amazonaws.com';
+export const TEST_HTTPS_ENDPOINT = 'https://r-12345678.kinesisvideo.us-west-2.amazonaws.com';
+export const TEST_ICE_SERVER = { Uris: ['turn:turn.example.com:443?transport=udp'], Username: 'user', Password: 'pass', Ttl: 300 };
+
+// The fingerprint line lets the client tell an ICE restart from a new peer connection
+const FAKE_SDP = 'v=0\r\na=fingerprint:sha-256 AA:BB:CC\r\n';
+
+// What a default viewer offer asks for; the master only sends the kinds an offer receives
+export const RECEIVE_MEDIA_SDP = 'm=video 9 UDP/TLS/RTP/SAVPF 96\r\na=recvonly\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=recvonly\r\n';
+
+// Every KinesisVideoClient and KinesisVideoSignalingClient created by the code under test sends through these
+export const kinesisVideoSend = vi.fn();
+export const kinesisVideoSignalingSend = vi.fn();
+
+// This module is imported from the SDK mocks, so commands are told apart by name rather than by class
+export function commandName(command: unknown): string {
+  return (command as object).constructor.name;
+}
+
+export function mockAwsResponses(): void {
+  kinesisVideoSend.mockImplementation(async (command: any) => {
+    if (commandName(command) === 'DescribeSignalingChannelCommand') {
+      return { ChannelInfo: { ChannelARN: TEST_CHANNEL_ARN, ChannelName: command.input.ChannelName } };
+    }
+    if (commandName(command) === 'GetSignalingChannelEndpointCommand') {
+      return {
+        ResourceEndpointList: [
+          { Protocol: 'WSS', ResourceEndpoint: TEST_WSS_ENDPOINT },
+          { Protocol: 'HTTPS', ResourceEndpoint: TEST_HTTPS_ENDPOINT },
+        ],
+      };
+    }
+    throw new Error(`Unexpected command ${commandName(command)}`);
+  });
+  kinesisVideoSignalingSend.mockImplementation(async (command: unknown) => {
+    if (commandName(command) === 'GetIceServerConfigCommand') {
+      return { IceServerList: [TEST_ICE_SERVER] };
+    }
+    throw new Error(`Unexpected command ${commandName(command)}`);
+  });
+}
+
+export function awsError(name: string, message = name): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+export class FakeKinesisVideoClient {
+  config: any;
+
+  constructor(config: { region: string; credentials?: unknown; endpoint?: string; systemClockOffset?: number }) {
+    this.config = {
+      region: async () => config.region,
+      credentials: config.credentials,
+      endpoint: config.endpoint,
+      systemClockOffset: config.systemClockOffset,
+    };
+  }
+
+  // The config is passed along so tests can check how a request would have been signed
+  send(command: unknown): Promise<any> {
+    return kinesisVideoSend(command, this.config);
+  }
+}
+
+export class FakeKinesisVideoSignalingClient extends FakeKinesisVideoClient {
+  send(command: unknown): Promise<any> {
+    return kinesisVideoSignalingSend(command, this.config);
+  }
+}
+
+export interface SentSignalingMessage {
+  type: 'SDP_OFFER' | 'SDP_ANSWER' | 'ICE_CANDIDATE';
+  payload: any;
+  recipientClientId?: string;
+}
+
+// Stands in for SignalingClient; opens on the next tick unless autoOpen is turned off
+export class FakeSignalingClient extends TypedEventEmitter<SignalingTransportEvents> implements SignalingTransport {
+  static instances: FakeSignalingClient[] = [];
+  static autoOpen = true;
+
+  config: any;
+  sent: SentSignalingMessage[] = [];
+  isOpen = false;
+  isClosed = false;
+
+  constructor(config: any) {
+    super();
+    this.config = config;
+    FakeSignalingClient.instances.push(this);
+  }
+
+  static get latest(): FakeSignalingClient {
+    return FakeSignalingClient.instances[FakeSignalingClient.instances.length - 1];
+  }
+
+  static reset(): void {
+    FakeSignalingClient.instances = [];
+    FakeSignalingClient.autoOpen = true;
+  }
+
+  open(): void {
+    if (FakeSignalingClient.autoOpen) {
+      setTimeout(() => this.simulateOpen(), 0);
+    }
+  }
+
+  close(): void {
+    this.isOpen = false;
+    this.isClosed = true;
+    this.emit('close');
+  }
+
+  sendSdpOffer(offer: RTCSessionDescriptionInit, recipientClientId?: string): void {
+    this.sent.push({ type: 'SDP_OFFER', payload: offer, recipientClientId });
+  }
+
+  sendSdpAnswer(answer: RTCSessionDescriptionInit, recipientClientId?: string): void {
+    this.sent.push({ type: 'SDP_ANSWER', payload: answer, recipientClientId });
+  }
+
+  sendIceCandidate(candidate: RTCIceCandidateInit, recipientClientId?: string): void {
+    this.sent.push({ type: 'ICE_CANDIDATE', payload: candidate, recipientClientId });
+  }
+
+  sentOfType(type: SentSignalingMessage['type']): SentSignalingMessage[] {
+    return this.sent.filter(message => message.type === type);
+  }
+
+  simulateOpen(): void {
+    if (this.isClosed) return;
+    this.isOpen = true;
+    this.emit('open');
+  }
+
+  simulate<E extends keyof SignalingTransportEvents>(event: E, ...args: Parameters<SignalingTransportEvents[E]>): void {
+    this.emit(event, ...args);
+  }
+}
+
+export class FakeRTCDataChannel {
+  label: string;
+  readyState: RTCDataChannelState = 'connecting';
+  binaryType = 'blob';
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(label: string) {
+    this.label = label;
+  }
+
+  send(data: unknown): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 'closed';
+    this.onclose?.();
+  }
+
+  simulateOpen(): void {
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+
+  simulateMessage(data: unknown): void {
+    this.onmessage?.({ data });
+  }
+}
+
+export class FakeRTCRtpSender {
+  track: { kind: string } | null;
+  parameters: RTCRtpSendParameters = { encodings: [{}], transactionId: '1', codecs: [], headerExtensions: [], rtcp: {} };
+
+  constructor(track: { kind: string } | null) {
+    this.track = track;
+  }
+
+  getParameters(): RTCRtpSendParameters {
+    return JSON.parse(JSON.stringify(this.parameters));
+  }
+
+  async setParameters(parameters: RTCRtpSendParameters): Promise<void> {
+    this.parameters = parameters;
+  }
+
+  async replaceTrack(track: { kind: string } | null): Promise<void> {
+    this.track = track;
+  }
+
+  setStreams(): void {}
+}
+
+export class FakeRTCRtpTransceiver {
+  sender: FakeRTCRtpSender;
+  receiver: { track: { kind: string } };
+  direction: RTCRtpTransceiverDirection;
+  currentDirection: RTCRtpTransceiverDirection | null = null;
+
+  constructor(kind: string, sender: FakeRTCRtpSender, direction: RTCRtpTransceiverDirection) {
+    this.sender = sender;
+    this.receiver = { track: { kind } };
+    this.direction = direction;
+  }
+}
+
+export class FakeRTCPeerConnection {
+  static instances: FakeRTCPeerConnection[] = [];
+
+  configuration: RTCConfiguration;
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  signalingState: RTCSignalingState = 'stable';
+  sctp = null;
+  addedTracks: unknown[] = [];
+  senders: FakeRTCRtpSender[] = [];
+  transceivers: FakeRTCRtpTransceiver[] = [];
+  addedCandidates: RTCIceCandidateInit[] = [];
+  localDescriptionTypes: RTCSdpType[] = [];
+  dataChannels: FakeRTCDataChannel[] = [];
+  isClosed = false;
+  ontrack: ((event: unknown) => void) | null = null;
+  onicecandidate: ((event: { candidate: RTCIceCandidateInit | null }) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  ondatachannel: ((event: { channel: FakeRTCDataChannel }) => void) | null = null;
+  onnegotiationneeded: (() => void) | null = null;
+
+  constructor(configuration: RTCConfiguration) {
+    this.configuration = configuration;
+    FakeRTCPeerConnection.instances.push(this);
+  }
+
+  static get latest(): FakeRTCPeerConnection {
+    return FakeRTCPeerConnection.instances[FakeRTCPeerConnection.instances.length - 1];
+  }
+
+  static reset(): void {
+    FakeRTCPeerConnection.instances = [];
+  }
+
+  // Like the real thing, every stream passed must be a MediaStream
+  addTrack(track: { kind: string }, ...streams: unknown[]): FakeRTCRtpSender {
+    if (streams.some(stream => !stream)) {
+      throw new TypeError('addTrack: argument is not a MediaStream');
+    }
+    this.addedTracks.push(track);
+    return this.addTransceiver(track, { direction: 'sendrecv' }).sender;
+  }
+
+  addTransceiver(trackOrKind: { kind: string } | string, init: RTCRtpTransceiverInit = {}): FakeRTCRtpTransceiver {
+    const track = typeof trackOrKind === 'string' ? null : trackOrKind;
+    const sender = new FakeRTCRtpSender(track);
+    const transceiver = new FakeRTCRtpTransceiver(track ? track.kind : trackOrKind as string, sender, init.direction || 'sendrecv');
+    this.senders.push(sender);
+    this.transceivers.push(transceiver);
+    return transceiver;
+  }
+
+  getTransceivers(): FakeRTCRtpTransceiver[] {
+    return this.transceivers;
+  }
+
+  getSenders(): FakeRTCRtpSender[] {
+    return this.senders;
+  }
+
+  removeTrack(sender: FakeRTCRtpSender): void {
+    this.senders = this.senders.filter(existing => existing !== sender);
+    this.transceivers.filter(transceiver => transceiver.sender === sender).forEach(transceiver => {
+      sender.track = null;
+      transceiver.direction = 'recvonly';
+    });
+  }
+
+  createDataChannel(label: string): FakeRTCDataChannel {
+    const channel = new FakeRTCDataChannel(label);
+    this.dataChannels.push(channel);
+    return channel;
+  }
+
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'offer', sdp: FAKE_SDP };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'answer', sdp: FAKE_SDP };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.localDescriptionTypes.push(description.type);
+    this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable';
+    if (description.type !== 'rollback') {
+      this.localDescription = description;
+    }
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+    this.remoteDescription = description;
+  }
+
+  // Like the real thing, candidates cannot be added before the remote description
+  async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    if (!this.remoteDescription) {
+      throw new Error('InvalidStateError: remote description is not set');
+    }
+    this.addedCandidates.push(candidate);
+  }
+
+  getConfiguration(): RTCConfiguration {
+    return this.configuration;
+  }
+
+  setConfiguration(configuration: RTCConfiguration): void {
+    this.configuration = configuration;
+  }
+
+  async getStats(): Promise<Map<string, unknown>> {
+    return new Map();
+  }
+
+  close(): void {
+    this.isClosed = true;
+    this.connectionState = 'closed';
+  }
+
+  simulateIceCandidate(candidate: RTCIceCandidateInit): void {
+    this.onicecandidate?.({ candidate });
+  }
+
+  simulateNegotiationNeeded(): void {
+    this.onnegotiationneeded?.();
+  }
+
+  simulateConnectionState(state: RTCPeerConnectionState): void {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+
+  simulateIceConnectionState(state: RTCIceConnectionState): void {
+    this.iceConnectionState = state;
+    this.oniceconnectionstatechange?.();
+  }
+
+  // A channel opened by the remote side
+  simulateDataChannel(label: string): FakeRTCDataChannel {
+    const channel = new FakeRTCDataChannel(label);
+    this.ondatachannel?.({ channel });
+    return channel;
+  }
+
+  simulateTrack(track: { kind: string; stop: () => void; addEventListener: () => void }): void {
+    this.ontrack?.({ track });
+  }
+}
+
+export function createFakeStream(): { stream: MediaStream; tracks: { kind: string; stop: () => void }[] } {
+  const tracks: { kind: string; stop: () => void }[] = [
+    { kind: 'video', stop: vi.fn() },
+    { kind: 'audio', stop: vi.fn() },
+  ];
+  const stream = {
+    getTracks: () => tracks,
+    addTrack: (track: { kind: string; stop: () => void }) => tracks.push(track),
+    removeTrack: (track: { kind: string; stop: () => void }) => tracks.splice(tracks.indexOf(track), 1),
+  } as unknown as MediaStream;
+  return { stream, tracks };
+}
+
+export class FakeMediaStream {
+  private tracks: unknown[] = [];
+
+  getTracks(): unknown[] {
+    return this.tracks;
+  }
+
+  addTrack(track: unknown): void {
+    this.tracks.push(track);
+  }
+
+  removeTrack(track: unknown): void {
+    this.tracks = this.tracks.filter(existing => existing !== track);
+  }
+}
+
+export function installWebRTCGlobals(): void {
+  vi.stubGlobal('RTCPeerConnection', FakeRTCPeerConnection);
+  vi.stubGlobal('MediaStream', FakeMediaStream);
+}
+
+// Lets pending promise callbacks and zero-delay timers run
+export function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// For timers the client schedules itself, such as reconnect backoff
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const silentLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
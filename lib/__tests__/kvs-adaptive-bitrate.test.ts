@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AdaptiveBitrateController, BitrateDecision, DEFAULT_BITRATE_LEVELS, readBitrateSample } from '../kvs-adaptive-bitrate';
+import { createStatsSnapshot } from '../kvs-stats';
+import { silentLogger } from './fakes';
+
+interface NetworkConditions {
+  packetsSent: number;
+  packetsLost: number;
+  rttMs: number;
+  availableOutgoingBitrate?: number;
+}
+
+function createReport({ packetsSent, packetsLost, rttMs, availableOutgoingBitrate }: NetworkConditions): RTCStatsReport {
+  return new Map<string, any>([
+    ['out-video', { id: 'out-video', type: 'outbound-rtp', kind: 'video', packetsSent, bytesSent: packetsSent * 1000, timestamp: packetsSent }],
+    ['remote-in-video', { id: 'remote-in-video', type: 'remote-inbound-rtp', kind: 'video', localId: 'out-video', packetsLost, roundTripTime: rttMs / 1000 }],
+    ['pair', { id: 'pair', type: 'candidate-pair', nominated: true, state: 'succeeded', availableOutgoingBitrate }],
+  ]) as unknown as RTCStatsReport;
+}
+
+// Each poll sends 1000 more packets and loses the given fraction of them
+function createTarget() {
+  const conditions = { packetsSent: 0, packetsLost: 0, loss: 0, rttMs: 50, availableOutgoingBitrate: 10000000 };
+  const target = {
+    conditions,
+    getViewerIds: vi.fn(() => ['viewer-1']),
+    getStats: vi.fn(() => {
+      conditions.packetsSent += 1000;
+      conditions.packetsLost += Math.round(1000 * conditions.loss);
+      return Promise.resolve(createReport(conditions));
+    }),
+    setEncodingParameters: vi.fn(() => Promise.resolve()),
+  };
+  return target;
+}
+
+function createController(target: ReturnType<typeof createTarget>) {
+  const controller = new AdaptiveBitrateController(target, { stepUpSamples: 3 }, silentLogger);
+  const decisions: BitrateDecision[] = [];
+  controller.on('adaptation', decision => decisions.push(decision));
+  return { controller, decisions };
+}
+
+async function pollTimes(controller: AdaptiveBitrateController, times: number) {
+  for (let i = 0; i < times; i++) {
+    await controller.poll();
+  }
+}
+
+describe('readBitrateSample', () => {
+  it('reads the sent video track and the selected candidate pair', () => {
+    const sample = readBitrateSample(createStatsSnapshot(
+      'viewer-1',
+      createReport({ packetsSent: 1900, packetsLost: 100, rttMs: 120, availableOutgoingBitrate: 800000 }),
+      createReport({ packetsSent: 1000, packetsLost: 0, rttMs: 80 })
+    ));
+
+    expect(sample.packetLoss).toBeCloseTo(0.1);
+    expect(sample.rttMs).toBe(120);
+    expect(sample.availableOutgoingBitrate).toBe(800000);
+    // 900 packets of 1000 bytes over 900 ms
+    expect(sample.sendBitrate).toBe(8000000);
+  });
+});
+
+describe('AdaptiveBitrateController', () => {
+  it('starts new viewers on the best level', async () => {
+    const target = createTarget();
+    const { controller } = createController(target);
+
+    await controller.poll();
+
+    expect(target.setEncodingParameters).toHaveBeenCalledWith({ video: DEFAULT_BITRATE_LEVELS[0] }, 'viewer-1');
+    expect(controller.getLevel('viewer-1')).toBe(0);
+  });
+
+  it('steps down one level per congested sample', async () => {
+    const target = createTarget();
+    const { controller, decisions } = createController(target);
+    await controller.poll();
+
+    target.conditions.loss = 0.1;
+    await pollTimes(controller, 2);
+
+    expect(decisions.map(decision => decision.level)).toEqual([1, 2]);
+    expect(decisions[0]).toMatchObject({ remoteClientId: 'viewer-1', direction: 'down', previousLevel: 0 });
+    expect(decisions[0].reason).toMatch(/packet loss/);
+    expect(target.setEncodingParameters).toHaveBeenLastCalledWith({ video: DEFAULT_BITRATE_LEVELS[2] }, 'viewer-1');
+  });
+
+  it('steps down when the bandwidth estimate stays below the current cap', async () => {
+    const target = createTarget();
+    const { controller, decisions } = createController(target);
+    target.conditions.availableOutgoingBitrate = 1000000;
+
+    await pollTimes(controller, 3);
+    expect(decisions).toHaveLength(0);
+
+    await controller.poll();
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0].reason).toMatch(/bandwidth/);
+  });
+
+  it('keeps the best level while the bandwidth estimate ramps up after connect', async () => {
+    const target = createTarget();
+    const { controller, decisions } = createController(target);
+
+    for (const estimate of [300000, 800000, 1600000, 3000000, 3000000]) {
+      target.conditions.availableOutgoingBitrate = estimate;
+      await controller.poll();
+    }
+
+    expect(decisions).toHaveLength(0);
+    expect(controller.getLevel('viewer-1')).toBe(0);
+  });
+
+  it('steps up while the estimate stays near the capped send rate', async () => {
+    const target = createTarget();
+    const { controller } = createController(target);
+    await controller.poll();
+    target.conditions.loss = 0.1;
+    await pollTimes(controller, 2);
+    expect(controller.getLevel('viewer-1')).toBe(2);
+
+    // Level 2 caps at 600 kbps, well short of level 1's 1.2 Mbps
+    target.conditions.loss = 0;
+    target.conditions.availableOutgoingBitrate = 750000;
+    await pollTimes(controller, 3);
+
+    expect(controller.getLevel('viewer-1')).toBe(1);
+  });
+
+  it('steps back up only after enough consecutive good samples', async () => {
+    const target = createTarget();
+    const { controller, decisions } = createController(target);
+    await controller.poll();
+    target.conditions.loss = 0.1;
+    await controller.poll();
+    expect(controller.getLevel('viewer-1')).toBe(1);
+
+    // Loss between the two thresholds neither steps down nor counts toward stepping up
+    target.conditions.loss = 0;
+    await pollTimes(controller, 2);
+    target.conditions.loss = 0.03;
+    await controller.poll();
+    target.conditions.loss = 0;
+    await pollTimes(controller, 2);
+    expect(controller.getLevel('viewer-1')).toBe(1);
+
+    await controller.poll();
+    expect(controller.getLevel('viewer-1')).toBe(0);
+    expect(decisions[decisions.length - 1]).toMatchObject({ direction: 'up', level: 0, previousLevel: 1 });
+  });
+
+  it('forgets viewers that left', async () => {
+    const target = createTarget();
+    const { controller } = createController(target);
+    await controller.poll();
+
+    target.getViewerIds.mockReturnValue([]);
+    await controller.poll();
+
+    expect(controller.getLevel('viewer-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KinesisVideoClient } from '@aws-sdk/client-kinesis-video';
+import { Role } from 'amazon-kinesis-video-streams-webrtc';
+import { KVSChannelManager } from '../kvs-channels';
+import { clearSignalingChannelCache, resolveSignalingEndpoints } from '../kvs-signaling-channel';
+import { TEST_CHANNEL_ARN, TEST_REGION, TEST_WSS_ENDPOINT, awsError, commandName, kinesisVideoSend, silentLogger } from './fakes';
+
+vi.mock('@aws-sdk/client-kinesis-video', async importOriginal => {
+  const { FakeKinesisVideoClient } = await import('./fakes');
+  return { ...(await importOriginal<object>()), KinesisVideoClient: FakeKinesisVideoClient };
+});
+
+const CHANNEL_NAME = 'test-channel';
+
+function channelInfo(name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    ChannelName: name,
+    ChannelARN: `arn:aws:kinesisvideo:us-west-2:123456789012:channel/${name}/1`,
+    ChannelStatus: 'ACTIVE',
+    Version: 'v1',
+    SingleMasterConfiguration: { MessageTtlSeconds: 60 },
+    ...overrides,
+  };
+}
+
+// Answers each command by name; anything not listed fails the test
+function mockCommands(handlers: Record<string, (input: any) => unknown>): void {
+  kinesisVideoSend.mockImplementation(async (command: any) => {
+    const handler = handlers[commandName(command)];
+    if (!handler) throw new Error(`Unexpected command ${commandName(command)}`);
+    return handler(command.input);
+  });
+}
+
+function sentCommands(): { name: string; input: any }[] {
+  return kinesisVideoSend.mock.calls.map(([command]) => ({ name: commandName(command), input: command.input }));
+}
+
+function createManager(): KVSChannelManager {
+  return KVSChannelManager.fromConfig({
+    region: TEST_REGION,
+    accessKeyId: 'AKIAEXAMPLE',
+    secretAccessKey: 'secret',
+    logger: silentLogger,
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.useRealTimers();
+});
+
+describe('KVSChannelManager.fromConfig', () => {
+  it('refuses to manage channels without credentials', () => {
+    expect(() => KVSChannelManager.fromConfig({ region: TEST_REGION })).toThrow(/requires credentials/);
+  });
+});
+
+describe('listChannels', () => {
+  it('lists one page filtered by name prefix', async () => {
+    mockCommands({
+      ListSignalingChannelsCommand: () => ({ ChannelInfoList: [channelInfo('cam-1'), channelInfo('cam-2')], NextToken: 'page-2' }),
+    });
+
+    const result = await createManager().listChannels({ namePrefix: 'cam', maxResults: 2, nextToken: 'page-1' });
+
+    expect(result.channels.map(channel => channel.name)).toEqual(['cam-1', 'cam-2']);
+    expect(result.channels[0]).toMatchObject({ status: 'ACTIVE', messageTtlSeconds: 60, version: 'v1' });
+    expect(result.nextToken).toBe('page-2');
+    expect(sentCommands()).toEqual([{
+      name: 'ListSignalingChannelsCommand',
+      input: {
+        MaxResults: 2,
+        NextToken: 'page-1',
+        ChannelNameCondition: { ComparisonOperator: 'BEGINS_WITH', ComparisonValue: 'cam' },
+      },
+    }]);
+  });
+
+  it('filters a page by tags', async () => {
+    const tagsByChannel: Record<string, Record<string, string>> = {
+      [channelInfo('cam-1').ChannelARN]: { env: 'dev', team: 'video' },
+      [channelInfo('cam-2').ChannelARN]: { env: 'prod', team: 'video' },
+    };
+    mockCommands({
+      ListSignalingChannelsCommand: () => ({ ChannelInfoList: [channelInfo('cam-1'), channelInfo('cam-2')] }),
+      ListTagsForResourceCommand: input => ({ Tags: tagsByChannel[input.ResourceARN] }),
+    });
+
+    const { channels } = await createManager().listChannels({ tags: { env: 'dev' } });
+
+    expect(channels.map(channel => channel.name)).toEqual(['cam-1']);
+    expect(channels[0].tags).toEqual({ env: 'dev', team: 'video' });
+  });
+
+  it('skips tag lookups without a tag filter', async () => {
+    mockCommands({ ListSignalingChannelsCommand: () => ({ ChannelInfoList: [channelInfo('cam-1')] }) });
+
+    await createManager().listChannels({ tags: {} });
+
+    expect(sentCommands().map(command => command.name)).toEqual(['ListSignalingChannelsCommand']);
+  });
+});
+
+describe('createChannel', () => {
+  it('creates a single master channel with tags and waits for it to become active', async () => {
+    vi.useFakeTimers();
+    const statuses = ['CREATING', 'ACTIVE'];
+    mockCommands({
+      CreateSignalingChannelCommand: () => ({ ChannelARN: channelInfo('new-channel').ChannelARN }),
+      DescribeSignalingChannelCommand: () => ({ ChannelInfo: channelInfo('new-channel', { ChannelStatus: statuses.shift() }) }),
+    });
+
+    const created = createManager().createChannel('new-channel', { messageTtlSeconds: 30, tags: { env: 'dev' } });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await created).status).toBe('ACTIVE');
+    expect(sentCommands()[0]).toEqual({
+      name: 'CreateSignalingChannelCommand',
+      input: {
+        ChannelName: 'new-channel',
+        ChannelType: 'SINGLE_MASTER',
+        SingleMasterConfiguration: { MessageTtlSeconds: 30 },
+        Tags: [{ Key: 'env', Value: 'dev' }],
+      },
+    });
+    expect(sentCommands().filter(command => command.name === 'DescribeSignalingChannelCommand')).toHaveLength(2);
+  });
+
+  it('rejects a message TTL outside what KVS accepts', async () => {
+    await expect(createManager().createChannel('new-channel', { messageTtlSeconds: 121 })).rejects.toThrow(/between 5 and 120/);
+    expect(kinesisVideoSend).not.toHaveBeenCalled();
+  });
+
+  it('passes on a name that is already taken', async () => {
+    mockCommands({
+      CreateSignalingChannelCommand: () => {
+        throw awsError('ResourceInUseException');
+      },
+    });
+
+    await expect(createManager().createChannel('taken')).rejects.toMatchObject({ name: 'ResourceInUseException' });
+  });
+});
+
+describe('deleteChannel', () => {
+  beforeEach(() => {
+    clearSignalingChannelCache(TEST_REGION, CHANNEL_NAME);
+    mockCommands({
+      DescribeSignalingChannelCommand: () => ({ ChannelInfo: channelInfo(CHANNEL_NAME, { ChannelARN: TEST_CHANNEL_ARN, Version: 'v7' }) }),
+      GetSignalingChannelEndpointCommand: () => ({ ResourceEndpointList: [{ Protocol: 'WSS', ResourceEndpoint: TEST_WSS_ENDPOINT }] }),
+      DeleteSignalingChannelCommand: () => ({}),
+    });
+  });
+
+  it('deletes the current version of the channel', async () => {
+    await createManager().deleteChannel(CHANNEL_NAME);
+
+    expect(sentCommands()[1]).toEqual({
+      name: 'DeleteSignalingChannelCommand',
+      input: { ChannelARN: TEST_CHANNEL_ARN, CurrentVersion: 'v7' },
+    });
+  });
+
+  it('forgets cached endpoints of the deleted channel', async () => {
+    const kinesisVideoClient = new KinesisVideoClient({ region: TEST_REGION });
+    const resolveEndpoints = () => resolveSignalingEndpoints(kinesisVideoClient, CHANNEL_NAME, Role.VIEWER, false, silentLogger);
+    await resolveEndpoints();
+
+    await new KVSChannelManager(kinesisVideoClient, silentLogger).deleteChannel(CHANNEL_NAME);
+    kinesisVideoSend.mockClear();
+    await resolveEndpoints();
+
+    expect(sentCommands().map(command => command.name)).toEqual(['DescribeSignalingChannelCommand', 'GetSignalingChannelEndpointCommand']);
+  });
+
+  it('reports a channel that does not exist', async () => {
+    kinesisVideoSend.mockRejectedValueOnce(awsError('ResourceNotFoundException'));
+
+    await expect(createManager().deleteChannel('missing')).rejects.toMatchObject({ name: 'ResourceNotFoundException' });
+    expect(sentCommands().map(command => command.name)).toEqual(['DescribeSignalingChannelCommand']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatClockSkew, getServerTimeFromSkewError, isClockSkewError } from '../kvs-clock-skew';
+import { awsError } from './fakes';
+
+const EXPIRED_MESSAGE = 'Signature expired: 20240101T000000Z is now earlier than 20240101T001000Z (20240101T001500Z - 5 min.)';
+const NOT_YET_CURRENT_MESSAGE = 'Signature not yet current: 20240101T013000Z is still later than 20240101T010500Z (20240101T010000Z + 5 min.)';
+
+describe('isClockSkewError', () => {
+  it('recognizes signatures rejected for their timestamp', () => {
+    expect(isClockSkewError(awsError('InvalidSignatureException', EXPIRED_MESSAGE))).toBe(true);
+    expect(isClockSkewError(awsError('InvalidSignatureException', NOT_YET_CURRENT_MESSAGE))).toBe(true);
+    expect(isClockSkewError(awsError('RequestTimeTooSkewed', 'The difference between the request time and the current time is too large (skew)'))).toBe(true);
+  });
+
+  it('ignores signatures rejected for other reasons', () => {
+    expect(isClockSkewError(awsError('InvalidSignatureException', 'The request signature we calculated does not match'))).toBe(false);
+    expect(isClockSkewError(awsError('AccessDeniedException', EXPIRED_MESSAGE))).toBe(false);
+    expect(isClockSkewError(EXPIRED_MESSAGE)).toBe(false);
+  });
+});
+
+describe('getServerTimeFromSkewError', () => {
+  it('reads the server time quoted in an expired signature error', () => {
+    expect(getServerTimeFromSkewError(awsError('InvalidSignatureException', EXPIRED_MESSAGE)))
+      .toEqual(new Date('2024-01-01T00:15:00Z'));
+  });
+
+  it('reads the server time quoted in a not yet current signature error', () => {
+    expect(getServerTimeFromSkewError(awsError('InvalidSignatureException', NOT_YET_CURRENT_MESSAGE)))
+      .toEqual(new Date('2024-01-01T01:00:00Z'));
+  });
+
+  it('prefers a ServerTime field on the error', () => {
+    const error = Object.assign(awsError('RequestTimeTooSkewed', EXPIRED_MESSAGE), { ServerTime: '2024-06-01T12:00:00Z' });
+
+    expect(getServerTimeFromSkewError(error)).toEqual(new Date('2024-06-01T12:00:00Z'));
+  });
+
+  it('falls back to the message when ServerTime does not parse', () => {
+    const error = Object.assign(awsError('RequestTimeTooSkewed', EXPIRED_MESSAGE), { ServerTime: 'soon' });
+
+    expect(getServerTimeFromSkewError(error)).toEqual(new Date('2024-01-01T00:15:00Z'));
+  });
+
+  it('returns undefined when no server time is given', () => {
+    expect(getServerTimeFromSkewError(awsError('InvalidSignatureException', 'Signature expired'))).toBeUndefined();
+    expect(getServerTimeFromSkewError('not an error')).toBeUndefined();
+  });
+});
+
+describe('formatClockSkew', () => {
+  it('signs the offset in seconds', () => {
+    expect(formatClockSkew(90500)).toBe('+90.5s');
+    expect(formatClockSkew(-1200)).toBe('-1.2s');
+    expect(formatClockSkew(0)).toBe('+0.0s');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getNegotiatedCodecs, matchesCodec, orderCodecs } from '../kvs-codecs';
+
+const VP8 = { mimeType: 'video/VP8', clockRate: 90000 };
+const VP9 = { mimeType: 'video/VP9', clockRate: 90000, sdpFmtpLine: 'profile-id=0' };
+const H264_BASELINE = { mimeType: 'video/H264', clockRate: 90000, sdpFmtpLine: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42001f' };
+const H264_CONSTRAINED_BASELINE = { mimeType: 'video/H264', clockRate: 90000, sdpFmtpLine: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f' };
+const H264_HIGH = { mimeType: 'video/H264', clockRate: 90000, sdpFmtpLine: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=640c1f' };
+const RTX = { mimeType: 'video/rtx', clockRate: 90000 };
+const CAPABILITIES = [VP8, RTX, VP9, H264_BASELINE, H264_CONSTRAINED_BASELINE, H264_HIGH];
+
+describe('matchesCodec', () => {
+  it('tells H.264 profiles apart by profile-level-id', () => {
+    expect(matchesCodec(H264_CONSTRAINED_BASELINE, 'H264-constrained-baseline')).toBe(true);
+    expect(matchesCodec(H264_BASELINE, 'H264-constrained-baseline')).toBe(false);
+    expect(matchesCodec(H264_HIGH, 'H264-high')).toBe(true);
+    expect(matchesCodec(H264_HIGH, 'H264')).toBe(true);
+    expect(matchesCodec(VP8, 'H264')).toBe(false);
+  });
+});
+
+describe('orderCodecs', () => {
+  it('moves preferred codecs first and keeps the rest in browser order', () => {
+    expect(orderCodecs(CAPABILITIES, ['H264-constrained-baseline', 'VP9'])).toEqual([
+      H264_CONSTRAINED_BASELINE, VP9, VP8, RTX, H264_BASELINE, H264_HIGH,
+    ]);
+  });
+
+  it('keeps only the preferred codecs and retransmission when restricting', () => {
+    expect(orderCodecs(CAPABILITIES, ['H264'], true)).toEqual([H264_BASELINE, H264_CONSTRAINED_BASELINE, H264_HIGH, RTX]);
+  });
+
+  it('returns nothing when no preferred codec is supported and restricting', () => {
+    expect(orderCodecs([VP8, RTX], ['AV1'], true)).toEqual([]);
+    expect(orderCodecs([VP8, RTX], ['AV1'])).toEqual([VP8, RTX]);
+  });
+});
+
+describe('getNegotiatedCodecs', () => {
+  it('reads the codec of each active RTP stream', () => {
+    const report = new Map<string, any>([
+      ['out-video', { type: 'outbound-rtp', kind: 'video', codecId: 'c1' }],
+      ['in-audio', { type: 'inbound-rtp', kind: 'audio', codecId: 'c2' }],
+      ['c1', { type: 'codec', ...H264_CONSTRAINED_BASELINE }],
+      ['c2', { type: 'codec', mimeType: 'audio/opus' }],
+    ]) as unknown as RTCStatsReport;
+
+    expect(getNegotiatedCodecs(report)).toEqual({ video: 'H264 (42e01f)', audio: 'opus' });
+  });
+});
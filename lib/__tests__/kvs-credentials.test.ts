@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CREDENTIALS_REFRESH_WINDOW_MS,
+  KVSCredentialIdentity,
+  createRefreshingProvider,
+  fromCredentialsEndpoint,
+  resolveCredentialsProvider,
+  toSignalingCredentials,
+} from '../kvs-credentials';
+
+function createIdentity(accessKeyId: string, expiresInMs?: number): KVSCredentialIdentity {
+  return {
+    accessKeyId,
+    secretAccessKey: `${accessKeyId}-secret`,
+    sessionToken: `${accessKeyId}-token`,
+    expiration: expiresInMs === undefined ? undefined : new Date(Date.now() + expiresInMs),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createRefreshingProvider', () => {
+  it('reuses credentials until they enter the refresh window', async () => {
+    const identities = [createIdentity('AKIA1', CREDENTIALS_REFRESH_WINDOW_MS + 60000), createIdentity('AKIA2', 60 * 60 * 1000)];
+    const source = vi.fn(async () => identities.shift()!);
+    const provider = createRefreshingProvider(source);
+
+    expect((await provider()).accessKeyId).toBe('AKIA1');
+    expect((await provider()).accessKeyId).toBe('AKIA1');
+    expect(source).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes before the credentials expire', async () => {
+    const identities = [createIdentity('AKIA1', CREDENTIALS_REFRESH_WINDOW_MS - 1000), createIdentity('AKIA2', 60 * 60 * 1000)];
+    const source = vi.fn(async () => identities.shift()!);
+    const provider = createRefreshingProvider(source);
+
+    expect((await provider()).accessKeyId).toBe('AKIA1');
+    expect((await provider()).accessKeyId).toBe('AKIA2');
+    expect((await provider()).accessKeyId).toBe('AKIA2');
+    expect(source).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps credentials without an expiration', async () => {
+    const source = vi.fn(async () => createIdentity('AKIA1'));
+    const provider = createRefreshingProvider(source);
+
+    await provider();
+    await provider();
+
+    expect(source).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one in-flight refresh between concurrent callers', async () => {
+    let resolve!: (identity: KVSCredentialIdentity) => void;
+    const source = vi.fn(() => new Promise<KVSCredentialIdentity>(done => {
+      resolve = done;
+    }));
+    const provider = createRefreshingProvider(source);
+
+    const calls = [provider(), provider(), provider()];
+    resolve(createIdentity('AKIA1', 60 * 60 * 1000));
+
+    expect((await Promise.all(calls)).map(identity => identity.accessKeyId)).toEqual(['AKIA1', 'AKIA1', 'AKIA1']);
+    expect(source).toHaveBeenCalledTimes(1);
+  });
+
+  it('tries again after a failed refresh', async () => {
+    const source = vi.fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValueOnce(createIdentity('AKIA1', 60 * 60 * 1000));
+    const provider = createRefreshingProvider(source);
+
+    await expect(provider()).rejects.toThrow('network down');
+    expect((await provider()).accessKeyId).toBe('AKIA1');
+  });
+
+  it('wraps static credentials', async () => {
+    const identity = createIdentity('AKIA1');
+
+    expect(await createRefreshingProvider(identity)()).toBe(identity);
+  });
+});
+
+describe('resolveCredentialsProvider', () => {
+  it('prefers a credentials provider over static keys', async () => {
+    const provider = resolveCredentialsProvider({
+      credentials: createIdentity('AKIAPROVIDER'),
+      accessKeyId: 'AKIASTATIC',
+      secretAccessKey: 'secret',
+    });
+
+    expect((await provider!()).accessKeyId).toBe('AKIAPROVIDER');
+  });
+
+  it('drops an empty session token from static keys', async () => {
+    const provider = resolveCredentialsProvider({ accessKeyId: 'AKIASTATIC', secretAccessKey: 'secret', sessionToken: '' });
+
+    expect(await provider!()).toEqual({ accessKeyId: 'AKIASTATIC', secretAccessKey: 'secret', sessionToken: undefined });
+  });
+
+  it('returns undefined without any credentials', () => {
+    expect(resolveCredentialsProvider({ accessKeyId: 'AKIASTATIC' })).toBeUndefined();
+  });
+});
+
+describe('fromCredentialsEndpoint', () => {
+  it('reads the STS shape', async () => {
+    const fetch = vi.fn(async () => Response.json({
+      Credentials: { AccessKeyId: 'ASIA1', SecretAccessKey: 'secret', SessionToken: 'token', Expiration: '2030-01-01T00:00:00Z' },
+    }));
+    vi.stubGlobal('fetch', fetch);
+
+    const identity = await fromCredentialsEndpoint('/api/credentials')();
+
+    expect(identity).toEqual({
+      accessKeyId: 'ASIA1',
+      secretAccessKey: 'secret',
+      sessionToken: 'token',
+      expiration: new Date('2030-01-01T00:00:00Z'),
+    });
+    expect(fetch).toHaveBeenCalledWith('/api/credentials', { credentials: 'same-origin' });
+  });
+
+  it('reads the camelCase shape and passes the request init through', async () => {
+    const fetch = vi.fn(async () => Response.json({ accessKeyId: 'ASIA1', secretAccessKey: 'secret' }));
+    vi.stubGlobal('fetch', fetch);
+
+    const identity = await fromCredentialsEndpoint('/api/credentials', { headers: { Authorization: 'Bearer abc' } })();
+
+    expect(identity).toEqual({ accessKeyId: 'ASIA1', secretAccessKey: 'secret', sessionToken: undefined, expiration: undefined });
+    expect(fetch).toHaveBeenCalledWith('/api/credentials', { credentials: 'same-origin', headers: { Authorization: 'Bearer abc' } });
+  });
+
+  it('rejects when the endpoint fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Forbidden', { status: 403 })));
+
+    await expect(fromCredentialsEndpoint('/api/credentials')()).rejects.toThrow('Credentials endpoint responded with 403');
+  });
+
+  it('rejects a response without an access key', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ SessionToken: 'token' })));
+
+    await expect(fromCredentialsEndpoint('/api/credentials')()).rejects.toThrow('Credentials endpoint returned no access key');
+  });
+});
+
+describe('toSignalingCredentials', () => {
+  it('fills in the current identity, session token included, before each signature', async () => {
+    const identities = [createIdentity('ASIA1'), { accessKeyId: 'AKIA2', secretAccessKey: 'secret-2' }];
+    const credentials = toSignalingCredentials(async () => identities.shift()!);
+
+    await credentials.getPromise();
+    expect(credentials).toMatchObject({ accessKeyId: 'ASIA1', secretAccessKey: 'ASIA1-secret', sessionToken: 'ASIA1-token' });
+
+    // Long-lived keys have no session token, so a stale one must not be left behind
+    await credentials.getPromise();
+    expect(credentials).toMatchObject({ accessKeyId: 'AKIA2', secretAccessKey: 'secret-2', sessionToken: undefined });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createContextLogger, redactFields, redactMessage } from '../kvs-logger';
+
+const SIGNED_URL = 'wss://v-1234.kinesisvideo.us-west-2.amazonaws.com/?X-Amz-ChannelARN=arn%3Aaws%3Akinesisvideo' +
+  '&X-Amz-Credential=AKIAEXAMPLE%2F20240101%2Fus-west-2%2Fkinesisvideo%2Faws4_request' +
+  '&X-Amz-Date=20240101T000000Z&X-Amz-Security-Token=session-token-value&X-Amz-Signature=abc123def456';
+
+describe('redactMessage', () => {
+  it('masks the credential, session token and signature of a signed URL', () => {
+    const redacted = redactMessage(`Opening ${SIGNED_URL} now`);
+
+    expect(redacted).toContain('X-Amz-Credential=[REDACTED]&');
+    expect(redacted).toContain('X-Amz-Security-Token=[REDACTED]&');
+    expect(redacted).toContain('X-Amz-Signature=[REDACTED] now');
+    expect(redacted).not.toMatch(/AKIAEXAMPLE|session-token-value|abc123def456/);
+    // The rest of the URL stays readable
+    expect(redacted).toContain('X-Amz-Date=20240101T000000Z');
+    expect(redacted).toContain('X-Amz-ChannelARN=arn%3Aaws%3Akinesisvideo');
+  });
+});
+
+describe('redactFields', () => {
+  it('masks fields named like secrets', () => {
+    const redacted = redactFields({
+      accessKeyId: 'AKIAEXAMPLE',
+      secretAccessKey: 'secret-value',
+      sessionToken: 'session-token-value',
+      Authorization: 'Bearer abc',
+      password: 'hunter2',
+    });
+
+    expect(Object.values(redacted)).toEqual(Array(5).fill('[REDACTED]'));
+  });
+
+  it('masks secrets inside nested objects and arrays', () => {
+    const redacted = redactFields({
+      config: {
+        region: 'us-west-2',
+        credentials: { accessKeyId: 'AKIAEXAMPLE', secretAccessKey: 'secret-value' },
+        endpoints: [{ url: SIGNED_URL }],
+      },
+    });
+
+    expect(redacted).toEqual({
+      config: {
+        region: 'us-west-2',
+        credentials: '[REDACTED]',
+        endpoints: [{ url: redactMessage(SIGNED_URL) }],
+      },
+    });
+    expect(JSON.stringify(redacted)).not.toMatch(/AKIAEXAMPLE|secret-value|abc123def456/);
+  });
+
+  it('masks signed URLs in error messages', () => {
+    const redacted = redactFields({ error: new TypeError(`Failed to connect to ${SIGNED_URL}`) });
+
+    expect(redacted.error).toEqual({ name: 'TypeError', message: `Failed to connect to ${redactMessage(SIGNED_URL)}` });
+    expect(JSON.stringify(redacted)).not.toMatch(/session-token-value|abc123def456/);
+  });
+
+  it('passes ordinary fields through unchanged', () => {
+    const fields = {
+      channelName: 'my-channel',
+      role: 'VIEWER',
+      remoteClientId: 'viewer-1',
+      attempt: 2,
+      enabled: true,
+      missing: undefined,
+      stats: { rttMs: 40, kinds: ['audio', 'video'] },
+    };
+
+    expect(redactFields(fields)).toEqual(fields);
+  });
+});
+
+describe('createContextLogger', () => {
+  it('redacts the message and fields before they reach the sink', () => {
+    const sink = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const logger = createContextLogger(sink, { channelName: 'my-channel' });
+
+    logger.info(`Connecting to ${SIGNED_URL}`, { credentials: { sessionToken: 'session-token-value' } });
+
+    const [message, fields] = sink.info.mock.calls[0];
+    expect(message).toBe(`Connecting to ${redactMessage(SIGNED_URL)}`);
+    expect(fields).toMatchObject({ channelName: 'my-channel', credentials: '[REDACTED]' });
+    expect(JSON.stringify([message, fields])).not.toMatch(/session-token-value|abc123def456/);
+  });
+});
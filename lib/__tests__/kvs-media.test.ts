@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { MEDIA_PRESETS, addViewerTransceivers, getReceivingKinds } from '../kvs-media';
+import { FakeRTCPeerConnection, createFakeStream } from './fakes';
+
+describe('getReceivingKinds', () => {
+  it('counts sections the remote side receives on', () => {
+    const sdp = [
+      'v=0',
+      'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+      'a=sendrecv',
+      'm=video 9 UDP/TLS/RTP/SAVPF 96',
+      'a=sendonly',
+      'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+      '',
+    ].join('\r\n');
+
+    expect(getReceivingKinds(sdp)).toEqual(['audio']);
+    expect(getReceivingKinds('v=0\r\nm=video 0 UDP/TLS/RTP/SAVPF 96\r\na=recvonly\r\nm=audio 9 RTP/AVP 0\r\n')).toEqual(['audio']);
+    expect(getReceivingKinds(undefined)).toEqual([]);
+  });
+});
+
+describe('addViewerTransceivers', () => {
+  it('declares only the kinds the options ask for', () => {
+    const peerConnection = new FakeRTCPeerConnection({});
+
+    const skipped = addViewerTransceivers(peerConnection as unknown as RTCPeerConnection, MEDIA_PRESETS.audioOnly.options);
+
+    expect(skipped).toEqual(['video']);
+    expect(peerConnection.transceivers.map(({ receiver, direction }) => [receiver.track.kind, direction])).toEqual([['audio', 'recvonly']]);
+  });
+
+  it('sends local tracks even for kinds the viewer does not receive', () => {
+    const peerConnection = new FakeRTCPeerConnection({});
+    const { stream, tracks } = createFakeStream();
+
+    addViewerTransceivers(peerConnection as unknown as RTCPeerConnection, MEDIA_PRESETS.videoOnly.options, stream);
+
+    expect(peerConnection.transceivers.map(({ sender, direction }) => [sender.track, direction])).toEqual([
+      [tracks[0], 'sendrecv'],
+      [tracks[1], 'sendonly'],
+    ]);
+  });
+});
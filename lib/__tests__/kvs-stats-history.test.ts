@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StatsHistory, toStatsRows } from '../kvs-stats-history';
+import { PeerStatsSnapshot, TrackStats } from '../kvs-stats';
+
+function createSnapshot(remoteClientId: string, video: Partial<TrackStats>, outboundBitrate?: number): PeerStatsSnapshot {
+  return {
+    remoteClientId,
+    timestamp: 0,
+    rttMs: 40,
+    outboundBitrate,
+    tracks: [{ id: 'out-video', kind: 'video', direction: 'outbound', bytes: 0, packets: 0, ...video }],
+  };
+}
+
+describe('StatsHistory', () => {
+  it('lists the points of every peer as time-ordered rows for one metric', () => {
+    const history = new StatsHistory('outbound');
+    history.addSnapshot(createSnapshot('viewer-1', {}, 1500000), 1000);
+    history.addSnapshot(createSnapshot('viewer-2', {}, 800000), 1500);
+    history.addSnapshot(createSnapshot('viewer-1', {}, 1200000), 2000);
+
+    expect(toStatsRows(history.getState(), 'bitrate', 0, 5000)).toEqual([
+      { time: 1000, 'viewer-1': 1500 },
+      { time: 1500, 'viewer-2': 800 },
+      { time: 2000, 'viewer-1': 1200 },
+    ]);
+    expect(toStatsRows(history.getState(), 'rtt', 1200, 5000)).toEqual([
+      { time: 1500, 'viewer-2': 40 },
+      { time: 2000, 'viewer-1': 40 },
+    ]);
+  });
+
+  it('drops points, peers and annotations older than the window', () => {
+    const history = new StatsHistory('outbound', 10000);
+    history.addSnapshot(createSnapshot('viewer-1', { framesPerSecond: 30 }), 0);
+    history.addAnnotation({ type: 'reconnect', label: 'Attempt 1', time: 1000 });
+    history.addSnapshot(createSnapshot('viewer-2', { framesPerSecond: 24 }), 5000);
+    history.addSnapshot(createSnapshot('viewer-2', { framesPerSecond: 25 }), 12000);
+
+    const { series, annotations } = history.getState();
+    expect(Array.from(series.keys())).toEqual(['viewer-2']);
+    expect(series.get('viewer-2')?.map(point => point.values.fps)).toEqual([24, 25]);
+    expect(annotations).toEqual([]);
+  });
+
+  it('annotates resolution changes and notifies subscribers', () => {
+    const history = new StatsHistory('outbound');
+    const listener = vi.fn();
+    history.subscribe(listener);
+
+    history.addSnapshot(createSnapshot('viewer-1', { frameWidth: 1280, frameHeight: 720 }), 1000);
+    history.addSnapshot(createSnapshot('viewer-1', { frameWidth: 1280, frameHeight: 720 }), 2000);
+    history.addSnapshot(createSnapshot('viewer-1', { frameWidth: 640, frameHeight: 360 }), 3000);
+
+    expect(history.getState().annotations).toEqual([
+      { time: 3000, type: 'qualityChange', label: '1280x720 → 640x360', remoteClientId: 'viewer-1' },
+    ]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
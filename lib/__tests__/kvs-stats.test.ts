@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { KVSStatsCollector, PeerStatsSnapshot, TrackStats, createStatsSnapshot } from '../kvs-stats';
+import { silentLogger } from './fakes';
+
+function createReport(entries: any[]): RTCStatsReport {
+  return new Map(entries.map(entry => [entry.id, entry])) as unknown as RTCStatsReport;
+}
+
+const H264 = { id: 'codec-h264', type: 'codec', mimeType: 'video/H264', sdpFmtpLine: 'packetization-mode=1;profile-level-id=42e01f' };
+const CANDIDATES = [
+  { id: 'local-1', type: 'local-candidate', candidateType: 'relay', protocol: 'udp', address: '10.0.0.1', port: 50000, relayProtocol: 'tls' },
+  { id: 'remote-1', type: 'remote-candidate', candidateType: 'srflx', protocol: 'udp', address: '203.0.113.5', port: 60000 },
+  { id: 'transport-1', type: 'transport', selectedCandidatePairId: 'pair-1' },
+];
+
+function receiverReport(timestamp: number, counters: { bytes: number; packets: number; lost: number; frames: number; decodeTime: number; freezes: number }) {
+  return createReport([
+    H264,
+    ...CANDIDATES,
+    {
+      id: 'pair-1', type: 'candidate-pair', localCandidateId: 'local-1', remoteCandidateId: 'remote-1',
+      currentRoundTripTime: 0.08, availableIncomingBitrate: 3000000, timestamp,
+    },
+    // A second pair that was checked but not selected
+    { id: 'pair-2', type: 'candidate-pair', nominated: true, state: 'succeeded', currentRoundTripTime: 0.5, timestamp },
+    {
+      id: 'in-video', type: 'inbound-rtp', kind: 'video', codecId: 'codec-h264', trackIdentifier: 'track-1', timestamp,
+      bytesReceived: counters.bytes, packetsReceived: counters.packets, packetsLost: counters.lost,
+      framesDecoded: counters.frames, totalDecodeTime: counters.decodeTime, freezeCount: counters.freezes,
+      jitter: 0.012, frameWidth: 1280, frameHeight: 720,
+    },
+  ]);
+}
+
+describe('createStatsSnapshot', () => {
+  it('resolves the selected candidate pair and codec', () => {
+    const snapshot = createStatsSnapshot('viewer-1', receiverReport(1000, { bytes: 0, packets: 0, lost: 0, frames: 0, decodeTime: 0, freezes: 0 }));
+
+    expect(snapshot.candidatePair).toEqual({
+      id: 'pair-1',
+      local: { candidateType: 'relay', protocol: 'udp', address: '10.0.0.1', port: 50000, relayProtocol: 'tls' },
+      remote: { candidateType: 'srflx', protocol: 'udp', address: '203.0.113.5', port: 60000, relayProtocol: undefined },
+      rttMs: 80,
+      availableOutgoingBitrate: undefined,
+      availableIncomingBitrate: 3000000,
+    });
+    expect(snapshot.rttMs).toBe(80);
+    expect(snapshot.tracks[0]).toMatchObject({ kind: 'video', direction: 'inbound', codec: 'H264 (42e01f)', jitterMs: 12 });
+    // Rates need a previous sample
+    expect(snapshot.tracks[0].bitrate).toBeUndefined();
+    expect(snapshot.intervalMs).toBeUndefined();
+  });
+
+  it('computes rates over the interval since the previous report', () => {
+    const previousReport = receiverReport(1000, { bytes: 100000, packets: 900, lost: 10, frames: 100, decodeTime: 0.5, freezes: 1 });
+    const previousSnapshot = createStatsSnapshot('viewer-1', previousReport);
+    const snapshot = createStatsSnapshot(
+      'viewer-1',
+      receiverReport(3000, { bytes: 600000, packets: 1850, lost: 60, frames: 160, decodeTime: 0.8, freezes: 2 }),
+      previousReport,
+      previousSnapshot
+    );
+
+    const [track] = snapshot.tracks;
+    expect(snapshot.intervalMs).toBe(2000);
+    expect(track.bitrate).toBe(2000000);
+    expect(track.packetsPerSecond).toBe(475);
+    expect(track.packetLoss).toBeCloseTo(5);
+    expect(track.framesPerSecond).toBe(30);
+    expect(track.decodeTimeMs).toBeCloseTo(5);
+    expect(track.freezeCount).toBe(2);
+    expect(snapshot.inboundBitrate).toBe(2000000);
+    expect(snapshot.outboundBitrate).toBeUndefined();
+  });
+
+  it('reads loss and RTT of outbound streams from the remote receiver reports', () => {
+    const sender = (timestamp: number, packetsSent: number, packetsLost: number) => createReport([
+      { id: 'out-audio', type: 'outbound-rtp', kind: 'audio', timestamp, bytesSent: packetsSent * 100, packetsSent },
+      { id: 'remote-in-audio', type: 'remote-inbound-rtp', kind: 'audio', localId: 'out-audio', packetsLost, roundTripTime: 0.12, jitter: 0.003 },
+    ]);
+    const previousReport = sender(0, 1000, 0);
+    const snapshot = createStatsSnapshot('viewer-1', sender(1000, 1980, 20), previousReport);
+
+    expect(snapshot.tracks[0]).toMatchObject({ direction: 'outbound', rttMs: 120, jitterMs: 3, packetLoss: 2, bitrate: 784000 });
+    expect(snapshot.rttMs).toBe(120);
+  });
+});
+
+describe('KVSStatsCollector', () => {
+  it('emits a snapshot per peer and an event per track, and forgets closed peers', async () => {
+    const peerIds = ['viewer-1', 'viewer-2'];
+    const source = {
+      getPeerIds: vi.fn(() => peerIds),
+      getStats: vi.fn(() => Promise.resolve(receiverReport(Date.now(), { bytes: 0, packets: 0, lost: 0, frames: 0, decodeTime: 0, freezes: 0 }))),
+    };
+    const collector = new KVSStatsCollector(source, {}, silentLogger);
+    const snapshots: PeerStatsSnapshot[] = [];
+    const tracks: [TrackStats, string][] = [];
+    collector.on('snapshot', snapshot => snapshots.push(snapshot));
+    collector.on('track', (track, remoteClientId) => tracks.push([track, remoteClientId]));
+
+    await collector.collect();
+
+    expect(snapshots.map(snapshot => snapshot.remoteClientId)).toEqual(['viewer-1', 'viewer-2']);
+    expect(tracks.map(([track, remoteClientId]) => `${remoteClientId}:${track.id}`)).toEqual(['viewer-1:in-video', 'viewer-2:in-video']);
+    expect(collector.getSnapshot('viewer-2')).toBe(snapshots[1]);
+
+    source.getPeerIds.mockReturnValue(['viewer-1']);
+    await collector.collect();
+
+    expect(collector.getSnapshot('viewer-2')).toBeUndefined();
+    expect(collector.getSnapshots()).toHaveLength(1);
+  });
+});
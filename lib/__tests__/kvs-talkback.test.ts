@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TalkbackController } from '../kvs-talkback';
+import { MediaInputKind } from '../kvs-devices';
+import { silentLogger } from './fakes';
+
+function createController() {
+  const target = { addTrack: vi.fn(), removeTrack: vi.fn() };
+  const opened: { kind: string; enabled: boolean; stop: () => void }[] = [];
+  const openTrack = vi.fn(async (kind: MediaInputKind) => {
+    const track = { kind: kind === 'videoinput' ? 'video' : 'audio', enabled: true, stop: vi.fn() };
+    opened.push(track);
+    return track as unknown as MediaStreamTrack;
+  });
+  const controller = new TalkbackController(target, openTrack, silentLogger);
+  return { controller, target, opened, openTrack };
+}
+
+describe('TalkbackController', () => {
+  it('sends the microphone only while push-to-talk is held', async () => {
+    const { controller, target, opened } = createController();
+
+    await controller.setMode('pushToTalk');
+    const [microphone] = opened;
+    expect(target.addTrack).toHaveBeenCalledWith(microphone);
+    expect(microphone.enabled).toBe(false);
+
+    controller.setTalking(true);
+    expect(microphone.enabled).toBe(true);
+    expect(controller.getState().talking).toBe(true);
+
+    controller.setTalking(false);
+    expect(microphone.enabled).toBe(false);
+  });
+
+  it('keeps the same microphone when switching to continuous and releases it when turned off', async () => {
+    const { controller, target, opened, openTrack } = createController();
+
+    await controller.setMode('pushToTalk');
+    await controller.setMode('continuous');
+    const [microphone] = opened;
+    expect(openTrack).toHaveBeenCalledTimes(1);
+    expect(microphone.enabled).toBe(true);
+
+    // Holding the button means nothing outside push-to-talk
+    controller.setTalking(false);
+    expect(microphone.enabled).toBe(true);
+
+    await controller.setMode('off');
+    expect(target.removeTrack).toHaveBeenCalledWith(microphone);
+    expect(microphone.stop).toHaveBeenCalled();
+    expect(controller.getState()).toEqual({ mode: 'off', camera: false, talking: false });
+  });
+
+  it('adds the camera only while talkback is on', async () => {
+    const { controller, target, opened } = createController();
+    const states: string[] = [];
+    controller.on('stateChange', state => states.push(`${state.mode}:${state.camera}`));
+
+    await controller.setCamera(true);
+    expect(opened).toHaveLength(0);
+
+    await Promise.all([controller.setMode('continuous'), controller.setMode('continuous')]);
+    expect(opened.map(track => track.kind)).toEqual(['audio', 'video']);
+    expect(controller.getCameraTrack()).toBe(opened[1]);
+
+    await controller.setCamera(false);
+    expect(target.removeTrack).toHaveBeenCalledWith(opened[1]);
+    expect(controller.getCameraTrack()).toBeUndefined();
+    expect(states).toEqual(['off:true', 'continuous:true', 'continuous:true', 'continuous:false']);
+  });
+});
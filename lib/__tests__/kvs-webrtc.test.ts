@@ -0,0 +1,749 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_DATA_CHANNEL_LABEL, KVSConfig, KVSWebRTCClient } from '../kvs-webrtc';
+import { clearSignalingChannelCache } from '../kvs-signaling-channel';
+import { KVSError } from '../kvs-errors';
+import {
+  FakeRTCDataChannel,
+  FakeRTCPeerConnection,
+  FakeSignalingClient,
+  RECEIVE_MEDIA_SDP,
+  TEST_CHANNEL_ARN,
+  TEST_ICE_SERVER,
+  TEST_REGION,
+  TEST_WSS_ENDPOINT,
+  awsError,
+  commandName,
+  createFakeStream,
+  flush,
+  installWebRTCGlobals,
+  kinesisVideoSend,
+  kinesisVideoSignalingSend,
+  mockAwsResponses,
+  silentLogger,
+  sleep,
+} from './fakes';
+
+vi.mock('@aws-sdk/client-kinesis-video', async importOriginal => {
+  const { FakeKinesisVideoClient } = await import('./fakes');
+  return { ...(await importOriginal<object>()), KinesisVideoClient: FakeKinesisVideoClient };
+});
+
+vi.mock('@aws-sdk/client-kinesis-video-signaling', async importOriginal => {
+  const { FakeKinesisVideoSignalingClient } = await import('./fakes');
+  return { ...(await importOriginal<object>()), KinesisVideoSignalingClient: FakeKinesisVideoSignalingClient };
+});
+
+vi.mock('amazon-kinesis-video-streams-webrtc', async importOriginal => {
+  const { FakeSignalingClient } = await import('./fakes');
+  return { ...(await importOriginal<object>()), SignalingClient: FakeSignalingClient };
+});
+
+const CHANNEL_NAME = 'test-channel';
+
+function createClient(role: 'MASTER' | 'VIEWER', overrides: Partial<KVSConfig> = {}): KVSWebRTCClient {
+  const client = new KVSWebRTCClient({
+    region: TEST_REGION,
+    channelName: CHANNEL_NAME,
+    accessKeyId: 'AKIAEXAMPLE',
+    secretAccessKey: 'secret',
+    // Retries would keep timers running past the end of a test
+    reconnect: { enabled: false },
+    logger: silentLogger,
+    ...overrides,
+  }, role);
+  clients.push(client);
+  return client;
+}
+
+let clients: KVSWebRTCClient[] = [];
+
+beforeEach(() => {
+  installWebRTCGlobals();
+  mockAwsResponses();
+  clearSignalingChannelCache(TEST_REGION, CHANNEL_NAME);
+});
+
+afterEach(() => {
+  clients.forEach(client => client.disconnect());
+  clients = [];
+  FakeSignalingClient.reset();
+  FakeRTCPeerConnection.reset();
+  vi.clearAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('endpoint resolution', () => {
+  it('resolves the channel, its endpoints and ICE servers before opening signaling', async () => {
+    await createClient('VIEWER').connect();
+
+    const commands = kinesisVideoSend.mock.calls.map(([command]) => command);
+    expect(commands.map(commandName)).toEqual(['DescribeSignalingChannelCommand', 'GetSignalingChannelEndpointCommand']);
+    expect(commands[0].input).toEqual({ ChannelName: CHANNEL_NAME });
+    expect(commands[1].input.SingleMasterChannelEndpointConfiguration.Role).toBe('VIEWER');
+
+    const signaling = FakeSignalingClient.latest;
+    expect(signaling.config.channelARN).toBe(TEST_CHANNEL_ARN);
+    expect(signaling.config.channelEndpoint).toBe(TEST_WSS_ENDPOINT);
+    expect(signaling.config.clientId).toMatch(/^viewer-/);
+
+    expect(FakeRTCPeerConnection.latest.configuration.iceServers).toEqual([
+      { urls: TEST_ICE_SERVER.Uris, username: TEST_ICE_SERVER.Username, credential: TEST_ICE_SERVER.Password },
+    ]);
+  });
+
+  it('reuses cached endpoints across clients', async () => {
+    await createClient('VIEWER').connect();
+    await createClient('VIEWER').connect();
+
+    expect(kinesisVideoSend).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not share cached endpoints between credentials', async () => {
+    await createClient('VIEWER').connect();
+    await createClient('VIEWER', { accessKeyId: 'AKIAOTHERACCOUNT' }).connect();
+
+    expect(kinesisVideoSend).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('viewer', () => {
+  it('sends an offer once signaling opens and connects on the answer', async () => {
+    const client = createClient('VIEWER');
+    const states: string[] = [];
+    client.on('stateChange', state => states.push(state));
+
+    await client.connect();
+    await flush();
+
+    const signaling = FakeSignalingClient.latest;
+    const peerConnection = FakeRTCPeerConnection.latest;
+    const [offer] = signaling.sentOfType('SDP_OFFER');
+    expect(offer.payload.type).toBe('offer');
+    expect(offer.recipientClientId).toBeUndefined();
+    expect(client.getState()).toBe('negotiating');
+
+    signaling.simulate('sdpAnswer', { type: 'answer', sdp: 'v=0\r\n' });
+    await flush();
+    expect(peerConnection.remoteDescription).toEqual({ type: 'answer', sdp: 'v=0\r\n' });
+
+    peerConnection.simulateConnectionState('connected');
+    expect(states).toEqual(['resolving', 'signaling', 'negotiating', 'connected']);
+  });
+
+  it('sends its ICE candidates without a recipient', async () => {
+    await createClient('VIEWER').connect();
+
+    FakeRTCPeerConnection.latest.simulateIceCandidate({ candidate: 'candidate:1', sdpMid: '0' });
+
+    expect(FakeSignalingClient.latest.sentOfType('ICE_CANDIDATE')).toEqual([
+      { type: 'ICE_CANDIDATE', payload: { candidate: 'candidate:1', sdpMid: '0' }, recipientClientId: undefined },
+    ]);
+  });
+
+  it('buffers ICE candidates that arrive before the answer', async () => {
+    await createClient('VIEWER').connect();
+    await flush();
+
+    const signaling = FakeSignalingClient.latest;
+    const peerConnection = FakeRTCPeerConnection.latest;
+    signaling.simulate('iceCandidate', { candidate: 'candidate:early', sdpMid: '0' });
+    await flush();
+    expect(peerConnection.addedCandidates).toEqual([]);
+
+    signaling.simulate('sdpAnswer', { type: 'answer', sdp: 'v=0\r\n' });
+    await flush();
+    expect(peerConnection.addedCandidates).toEqual([{ candidate: 'candidate:early', sdpMid: '0' }]);
+
+    signaling.simulate('iceCandidate', { candidate: 'candidate:late', sdpMid: '0' });
+    await flush();
+    expect(peerConnection.addedCandidates).toHaveLength(2);
+  });
+});
+
+describe('master', () => {
+  it('is connected once signaling opens and answers each viewer on its own peer connection', async () => {
+    const { stream } = createFakeStream();
+    const client = createClient('MASTER');
+    await client.connect(stream);
+
+    expect(client.getState()).toBe('connected');
+    expect(FakeSignalingClient.latest.config.clientId).toBeUndefined();
+    expect(FakeRTCPeerConnection.instances).toHaveLength(0);
+
+    const signaling = FakeSignalingClient.latest;
+    signaling.simulate('sdpOffer', { type: 'offer', sdp: `v=0\r\na=fingerprint:sha-256 01\r\n${RECEIVE_MEDIA_SDP}` }, 'viewer-1');
+    signaling.simulate('sdpOffer', { type: 'offer', sdp: `v=0\r\na=fingerprint:sha-256 02\r\n${RECEIVE_MEDIA_SDP}` }, 'viewer-2');
+    await flush();
+
+    expect(FakeRTCPeerConnection.instances).toHaveLength(2);
+    expect(FakeRTCPeerConnection.instances[0].addedTracks).toHaveLength(2);
+    expect(signaling.sentOfType('SDP_ANSWER').map(message => message.recipientClientId)).toEqual(['viewer-1', 'viewer-2']);
+  });
+
+  it('addresses its ICE candidates to the viewer', async () => {
+    await createClient('MASTER').connect();
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' }, 'viewer-1');
+    await flush();
+
+    FakeRTCPeerConnection.latest.simulateIceCandidate({ candidate: 'candidate:1', sdpMid: '0' });
+
+    expect(FakeSignalingClient.latest.sentOfType('ICE_CANDIDATE')[0].recipientClientId).toBe('viewer-1');
+  });
+
+  it('buffers ICE candidates that arrive before the offer', async () => {
+    await createClient('MASTER').connect();
+
+    const signaling = FakeSignalingClient.latest;
+    signaling.simulate('iceCandidate', { candidate: 'candidate:early', sdpMid: '0' }, 'viewer-1');
+    signaling.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' }, 'viewer-1');
+    await flush();
+
+    expect(FakeRTCPeerConnection.latest.addedCandidates).toEqual([{ candidate: 'candidate:early', sdpMid: '0' }]);
+  });
+
+  it('empties a viewer talkback stream when the viewer leaves', async () => {
+    const client = createClient('MASTER');
+    const removed: number[] = [];
+    client.on('remoteTrackRemoved', (_track, stream) => removed.push(stream.getTracks().length));
+    await client.connect();
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' }, 'viewer-1');
+    await flush();
+    const peerConnection = FakeRTCPeerConnection.latest;
+    const microphone = { kind: 'audio', stop: vi.fn(), addEventListener: vi.fn() };
+    peerConnection.simulateTrack(microphone);
+    peerConnection.simulateConnectionState('connected');
+
+    peerConnection.simulateConnectionState('closed');
+
+    expect(removed).toEqual([0]);
+    expect(microphone.stop).toHaveBeenCalled();
+  });
+
+  it('reports viewers as they connect', async () => {
+    const client = createClient('MASTER');
+    const viewerConnected = vi.fn();
+    client.on('viewerConnected', viewerConnected);
+    await client.connect();
+
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' }, 'viewer-1');
+    await flush();
+    FakeRTCPeerConnection.latest.simulateConnectionState('connected');
+
+    expect(viewerConnected).toHaveBeenCalledWith('viewer-1');
+  });
+});
+
+describe('renegotiation', () => {
+  const VIEWER_OFFER = { type: 'offer' as const, sdp: `v=0\r\na=fingerprint:sha-256 01\r\na=ice-ufrag:abcd\r\n${RECEIVE_MEDIA_SDP}` };
+
+  async function connectMasterWithViewer() {
+    const { stream, tracks } = createFakeStream();
+    const client = createClient('MASTER');
+    await client.connect(stream);
+    const signaling = FakeSignalingClient.latest;
+    signaling.simulate('sdpOffer', VIEWER_OFFER, 'viewer-1');
+    await flush();
+    return { client, signaling, stream, tracks, peerConnection: FakeRTCPeerConnection.latest };
+  }
+
+  it('adds a track to connected viewers and offers the change to each of them', async () => {
+    const { client, signaling, tracks, peerConnection } = await connectMasterWithViewer();
+    const microphone = { kind: 'audio', stop: vi.fn() };
+
+    client.addTrack(microphone as unknown as MediaStreamTrack);
+    peerConnection.simulateNegotiationNeeded();
+    await flush();
+
+    expect(tracks).toContain(microphone);
+    expect(peerConnection.addedTracks).toContain(microphone);
+    expect(signaling.sentOfType('SDP_OFFER').map(message => message.recipientClientId)).toEqual(['viewer-1']);
+    expect(peerConnection.signalingState).toBe('have-local-offer');
+
+    signaling.simulate('sdpAnswer', { type: 'answer', sdp: 'v=0\r\n' }, 'viewer-1');
+    await flush();
+    expect(peerConnection.signalingState).toBe('stable');
+    expect(peerConnection.remoteDescription?.type).toBe('answer');
+  });
+
+  it('stops sending a removed track', async () => {
+    const { client, tracks, peerConnection } = await connectMasterWithViewer();
+    const [video] = tracks;
+
+    client.removeTrack(video as unknown as MediaStreamTrack);
+
+    expect(peerConnection.senders.map(sender => sender.track?.kind)).toEqual(['audio']);
+    expect(tracks).not.toContain(video);
+  });
+
+  it('swaps the camera on connected viewers without renegotiating', async () => {
+    const { client, signaling, tracks, peerConnection } = await connectMasterWithViewer();
+    const [video, audio] = tracks;
+    const camera = { kind: 'video', stop: vi.fn() };
+
+    await client.replaceTrack(camera as unknown as MediaStreamTrack);
+
+    expect(peerConnection.senders.map(sender => sender.track)).toEqual([camera, audio]);
+    expect(tracks).toContain(camera);
+    expect(tracks).not.toContain(video);
+    expect(video.stop).not.toHaveBeenCalled();
+    expect(signaling.sentOfType('SDP_OFFER')).toHaveLength(0);
+    await expect(client.replaceTrack(camera as unknown as MediaStreamTrack, audio as unknown as MediaStreamTrack))
+      .rejects.toThrow('Cannot replace the audio track with a video track');
+  });
+
+  it('falls back to adding the replacement when the sender rejects it, without local media', async () => {
+    const client = createClient('MASTER');
+    await client.connect();
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: `v=0\r\n${RECEIVE_MEDIA_SDP}` }, 'viewer-1');
+    await flush();
+    const peerConnection = FakeRTCPeerConnection.latest;
+    const screen = { kind: 'video', stop: vi.fn() };
+    const sender = peerConnection.addTrack(screen);
+    vi.spyOn(sender, 'replaceTrack').mockRejectedValue(new Error('InvalidModificationError'));
+    const camera = { kind: 'video', stop: vi.fn() };
+
+    await client.replaceTrack(camera as unknown as MediaStreamTrack, screen as unknown as MediaStreamTrack);
+
+    expect(peerConnection.senders.map(sender => sender.track)).toEqual([camera]);
+    expect(peerConnection.addedTracks).toEqual([screen, camera]);
+  });
+
+  it('answers a viewer renegotiation on the same peer connection', async () => {
+    const { signaling, peerConnection } = await connectMasterWithViewer();
+
+    signaling.simulate('sdpOffer', VIEWER_OFFER, 'viewer-1');
+    await flush();
+
+    expect(FakeRTCPeerConnection.instances).toHaveLength(1);
+    expect(peerConnection.isClosed).toBe(false);
+    expect(signaling.sentOfType('SDP_ANSWER')).toHaveLength(2);
+  });
+
+  it('keeps its own offer when a viewer offer collides on the master', async () => {
+    const { client, signaling, peerConnection } = await connectMasterWithViewer();
+    client.addTrack({ kind: 'audio', stop: vi.fn() } as unknown as MediaStreamTrack);
+    peerConnection.simulateNegotiationNeeded();
+    await flush();
+
+    signaling.simulate('sdpOffer', VIEWER_OFFER, 'viewer-1');
+    await flush();
+
+    expect(signaling.sentOfType('SDP_ANSWER')).toHaveLength(1);
+    expect(peerConnection.signalingState).toBe('have-local-offer');
+  });
+
+  it('rolls back its own offer and answers when the master offer collides on the viewer', async () => {
+    const client = createClient('VIEWER');
+    await client.connect();
+    const signaling = FakeSignalingClient.latest;
+    const peerConnection = FakeRTCPeerConnection.latest;
+    signaling.simulate('sdpAnswer', { type: 'answer', sdp: 'v=0\r\n' });
+    await flush();
+
+    client.addTrack({ kind: 'audio', stop: vi.fn() } as unknown as MediaStreamTrack);
+    peerConnection.simulateNegotiationNeeded();
+    await flush();
+    expect(peerConnection.signalingState).toBe('have-local-offer');
+
+    signaling.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' });
+    await flush();
+
+    expect(peerConnection.localDescriptionTypes.slice(-2)).toEqual(['rollback', 'answer']);
+    expect(signaling.sentOfType('SDP_ANSWER')).toHaveLength(1);
+    expect(peerConnection.signalingState).toBe('stable');
+  });
+});
+
+describe('media options', () => {
+  it('declares the viewer transceivers from the config', async () => {
+    await createClient('VIEWER', { media: { video: 'none' } }).connect();
+    await flush();
+
+    const peerConnection = FakeRTCPeerConnection.latest;
+    expect(peerConnection.transceivers.map(({ receiver, direction }) => [receiver.track.kind, direction])).toEqual([['audio', 'recvonly']]);
+    expect(FakeSignalingClient.latest.sentOfType('SDP_OFFER')).toHaveLength(1);
+  });
+
+  it('only sends the master tracks the viewer offers to receive', async () => {
+    const { stream, tracks } = createFakeStream();
+    const client = createClient('MASTER');
+    await client.connect(stream);
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\nm=audio 9 UDP/TLS/RTP/SAVPF 111\r\na=recvonly\r\n' }, 'viewer-1');
+    await flush();
+
+    expect(FakeRTCPeerConnection.latest.addedTracks).toEqual([tracks[1]]);
+
+    client.addTrack({ kind: 'video', stop: vi.fn() } as unknown as MediaStreamTrack);
+    expect(FakeRTCPeerConnection.latest.addedTracks).toEqual([tracks[1]]);
+  });
+
+  it('sends talkback on a reserved sendrecv transceiver without a new m-line', async () => {
+    const client = createClient('VIEWER', { media: { audio: 'sendrecv' } });
+    await client.connect();
+    await flush();
+    const peerConnection = FakeRTCPeerConnection.latest;
+    const microphone = { kind: 'audio', stop: vi.fn() };
+
+    client.addTrack(microphone as unknown as MediaStreamTrack);
+    await flush();
+
+    expect(peerConnection.transceivers).toHaveLength(2);
+    expect(peerConnection.addedTracks).toEqual([]);
+    expect(peerConnection.transceivers[1].sender.track).toBe(microphone);
+  });
+});
+
+describe('reconnection', () => {
+  const RECONNECT = { enabled: true, maxAttempts: 2, initialDelayMs: 10, multiplier: 3, maxDelayMs: 1000, jitter: 0 };
+
+  it('keeps offering when no master answers', async () => {
+    const client = createClient('VIEWER', { reconnect: { ...RECONNECT, initialDelayMs: 1000 }, timeouts: { answerMs: 20 } });
+    const onError = vi.fn();
+    client.on('error', onError);
+    await client.connect();
+
+    await sleep(40);
+
+    expect(onError.mock.calls[0][0].code).toBe('MASTER_NOT_PRESENT');
+    expect(client.getState()).toBe('reconnecting');
+  });
+
+  it('reopens signaling after it drops', async () => {
+    const client = createClient('MASTER', { reconnect: RECONNECT });
+    const reconnected = vi.fn();
+    client.on('reconnected', reconnected);
+    await client.connect();
+
+    FakeSignalingClient.latest.simulate('close');
+    expect(client.getState()).toBe('reconnecting');
+    await sleep(50);
+
+    expect(reconnected).toHaveBeenCalledTimes(1);
+    expect(FakeSignalingClient.instances).toHaveLength(2);
+    expect(client.getState()).toBe('connected');
+  });
+
+  it('backs off exponentially and gives up after the retry limit', async () => {
+    const client = createClient('MASTER', { reconnect: RECONNECT, timeouts: { signalingOpenMs: 10 } });
+    const attempts: [number, number][] = [];
+    const onError = vi.fn();
+    client.on('reconnecting', (attempt, delayMs) => attempts.push([attempt, delayMs]));
+    client.on('error', onError);
+    await client.connect();
+
+    FakeSignalingClient.autoOpen = false;
+    FakeSignalingClient.latest.simulate('close');
+    await sleep(200);
+
+    expect(attempts).toEqual([[1, 10], [2, 30]]);
+    expect(FakeSignalingClient.instances).toHaveLength(3);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(client.getState()).toBe('closed');
+  });
+
+  it('cancels a pending reconnect on disconnect()', async () => {
+    const client = createClient('MASTER', { reconnect: { ...RECONNECT, initialDelayMs: 30 } });
+    const onReconnecting = vi.fn();
+    client.on('reconnecting', onReconnecting);
+    await client.connect();
+
+    FakeSignalingClient.latest.simulate('close');
+    client.disconnect();
+    await sleep(60);
+
+    expect(onReconnecting).toHaveBeenCalledTimes(1);
+    expect(FakeSignalingClient.instances).toHaveLength(1);
+    expect(client.getState()).toBe('closed');
+  });
+});
+
+describe('ICE restart', () => {
+  async function connectViewer(reconnect = {}) {
+    const client = createClient('VIEWER', { reconnect: { enabled: true, ...reconnect } });
+    const negotiations: string[] = [];
+    client.on('negotiation', ({ type, direction }) => negotiations.push(`${type}:${direction}`));
+    await client.connect();
+    await flush();
+    const signaling = FakeSignalingClient.latest;
+    const peerConnection = FakeRTCPeerConnection.latest;
+    signaling.simulate('sdpAnswer', { type: 'answer', sdp: 'v=0\r\n' });
+    await flush();
+    peerConnection.simulateConnectionState('connected');
+    return { client, signaling, peerConnection, negotiations };
+  }
+
+  it('restarts ICE on the same peer connection when it fails', async () => {
+    const { client, signaling, peerConnection, negotiations } = await connectViewer();
+
+    peerConnection.simulateIceConnectionState('failed');
+    await flush();
+
+    expect(negotiations).toContain('iceRestart:sent');
+    expect(signaling.sentOfType('SDP_OFFER')).toHaveLength(2);
+    expect(FakeRTCPeerConnection.instances).toHaveLength(1);
+    expect(peerConnection.isClosed).toBe(false);
+    expect(client.getState()).toBe('reconnecting');
+
+    signaling.simulate('sdpAnswer', { type: 'answer', sdp: 'v=0\r\n' });
+    await flush();
+    peerConnection.simulateIceConnectionState('connected');
+    expect(client.getState()).toBe('connected');
+  });
+
+  it('restarts ICE once a disconnect outlasts the grace period', async () => {
+    const { signaling, peerConnection, negotiations } = await connectViewer({ disconnectedGraceMs: 20 });
+
+    peerConnection.simulateIceConnectionState('disconnected');
+    await flush();
+    expect(negotiations).not.toContain('iceRestart:sent');
+
+    await sleep(40);
+    expect(negotiations).toContain('iceRestart:sent');
+    expect(signaling.sentOfType('SDP_OFFER')).toHaveLength(2);
+    expect(peerConnection.isClosed).toBe(false);
+  });
+});
+
+describe('data channels', () => {
+  async function connectMasterWithViewers(remoteClientIds: string[]) {
+    const client = createClient('MASTER');
+    await client.connect();
+    const channels = new Map<string, FakeRTCDataChannel>();
+    for (const remoteClientId of remoteClientIds) {
+      FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' }, remoteClientId);
+      await flush();
+      const channel = FakeRTCPeerConnection.latest.simulateDataChannel(DEFAULT_DATA_CHANNEL_LABEL);
+      channel.simulateOpen();
+      channels.set(remoteClientId, channel);
+    }
+    return { client, channels };
+  }
+
+  it('opens the viewer channel as part of its offer and sends once it is open', async () => {
+    const client = createClient('VIEWER');
+    const onOpen = vi.fn();
+    client.on('dataChannelOpen', onOpen);
+    client.createDataChannel();
+    await client.connect();
+
+    const [channel] = FakeRTCPeerConnection.latest.dataChannels;
+    expect(channel.label).toBe(DEFAULT_DATA_CHANNEL_LABEL);
+    expect(client.send('too early')).toBe(0);
+
+    channel.simulateOpen();
+    expect(onOpen).toHaveBeenCalledWith(DEFAULT_DATA_CHANNEL_LABEL, 'MASTER');
+    expect(client.send('hello')).toBe(1);
+    expect(channel.sent).toEqual(['hello']);
+  });
+
+  it('reports messages with the sender and channel label', async () => {
+    const { client, channels } = await connectMasterWithViewers(['viewer-1']);
+    const onMessage = vi.fn();
+    client.on('message', onMessage);
+
+    channels.get('viewer-1')!.simulateMessage('ping');
+
+    expect(onMessage).toHaveBeenCalledWith('ping', 'viewer-1', DEFAULT_DATA_CHANNEL_LABEL);
+  });
+
+  it('broadcasts to every viewer by default', async () => {
+    const { client, channels } = await connectMasterWithViewers(['viewer-1', 'viewer-2']);
+
+    expect(client.send('to everyone')).toBe(2);
+
+    expect(channels.get('viewer-1')!.sent).toEqual(['to everyone']);
+    expect(channels.get('viewer-2')!.sent).toEqual(['to everyone']);
+  });
+
+  it('addresses one or several viewers', async () => {
+    const { client, channels } = await connectMasterWithViewers(['viewer-1', 'viewer-2', 'viewer-3']);
+
+    expect(client.send('just you', { remoteClientId: 'viewer-2' })).toBe(1);
+    expect(client.send('you two', { remoteClientId: ['viewer-1', 'viewer-3'] })).toBe(2);
+    expect(client.send('nobody', { remoteClientId: 'viewer-9' })).toBe(0);
+
+    expect(channels.get('viewer-1')!.sent).toEqual(['you two']);
+    expect(channels.get('viewer-2')!.sent).toEqual(['just you']);
+    expect(channels.get('viewer-3')!.sent).toEqual(['you two']);
+  });
+
+  it('skips viewers whose channel has closed', async () => {
+    const { client, channels } = await connectMasterWithViewers(['viewer-1', 'viewer-2']);
+    channels.get('viewer-1')!.close();
+
+    expect(client.send('still here?')).toBe(1);
+    expect(channels.get('viewer-2')!.sent).toEqual(['still here?']);
+  });
+
+  it('sends binary payloads unchanged', async () => {
+    const { client, channels } = await connectMasterWithViewers(['viewer-1']);
+    const buffer = new ArrayBuffer(4);
+    const view = new Uint8Array([1, 2, 3]);
+    const blob = new Blob(['file']);
+
+    client.send(buffer);
+    client.send(view);
+    client.send(blob);
+
+    const sent = channels.get('viewer-1')!.sent;
+    expect(sent[0]).toBe(buffer);
+    expect(sent[1]).toBe(view);
+    expect(sent[2]).toBe(blob);
+  });
+});
+
+describe('encoding parameters', () => {
+  it('applies the configured caps to new viewers and live updates to current ones', async () => {
+    const { stream } = createFakeStream();
+    const client = createClient('MASTER', { encoding: { video: { maxBitrate: 1000000, scaleResolutionDownBy: 2 } } });
+    await client.connect(stream);
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: `v=0\r\n${RECEIVE_MEDIA_SDP}` }, 'viewer-1');
+    await flush();
+
+    const [videoSender, audioSender] = FakeRTCPeerConnection.latest.senders;
+    expect(videoSender.parameters.encodings[0]).toEqual({ maxBitrate: 1000000, scaleResolutionDownBy: 2 });
+    expect(audioSender.parameters.encodings[0]).toEqual({});
+
+    await client.setEncodingParameters({ video: { maxFramerate: 15, scaleResolutionDownBy: undefined, degradationPreference: 'maintain-framerate' } });
+
+    expect(videoSender.parameters.encodings[0]).toEqual({ maxBitrate: 1000000, maxFramerate: 15 });
+    expect(videoSender.parameters.degradationPreference).toBe('maintain-framerate');
+    expect(client.getEncodingOptions().video).toMatchObject({ maxBitrate: 1000000, maxFramerate: 15 });
+  });
+
+  it('rejects invalid caps', async () => {
+    const client = createClient('MASTER');
+
+    await expect(client.setEncodingParameters({ video: { scaleResolutionDownBy: 0.5 } })).rejects.toThrow('scaleResolutionDownBy');
+  });
+});
+
+describe('clock skew', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  // Formats a time the way KVS quotes it in a rejected signature
+  const toAmzDate = (date: Date) => date.toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+  it('retries with the corrected offset and signs GetIceServerConfig with it', async () => {
+    const serverTime = new Date(Date.now() + HOUR_MS);
+    const localTime = new Date();
+    kinesisVideoSend.mockRejectedValueOnce(awsError(
+      'InvalidSignatureException',
+      `Signature not yet current: ${toAmzDate(localTime)} is still later than ${toAmzDate(serverTime)} (${toAmzDate(serverTime)} + 5 min.)`
+    ));
+    const client = createClient('VIEWER');
+    const onClockSkew = vi.fn();
+    client.on('clockSkew', onClockSkew);
+
+    await client.connect();
+
+    expect(kinesisVideoSend).toHaveBeenCalledTimes(3);
+    expect(onClockSkew.mock.calls[0][0]).toMatchObject({ source: 'skew-error' });
+    const offsetMs = onClockSkew.mock.calls[0][0].offsetMs;
+    expect(Math.abs(offsetMs - HOUR_MS)).toBeLessThan(2000);
+
+    const [[, signalingClientConfig]] = kinesisVideoSignalingSend.mock.calls;
+    expect(signalingClientConfig.systemClockOffset).toBe(offsetMs);
+    expect(FakeSignalingClient.latest.config.systemClockOffset).toBe(offsetMs);
+  });
+});
+
+describe('errors', () => {
+  it('reports a missing channel as CHANNEL_NOT_FOUND', async () => {
+    kinesisVideoSend.mockRejectedValueOnce(awsError('ResourceNotFoundException'));
+    const client = createClient('VIEWER');
+    const onError = vi.fn();
+    client.on('error', onError);
+
+    await expect(client.connect()).rejects.toMatchObject({ code: 'CHANNEL_NOT_FOUND', retryable: false });
+    expect(onError).toHaveBeenCalledWith(expect.any(KVSError));
+    expect(client.getState()).toBe('closed');
+    expect(FakeSignalingClient.instances).toHaveLength(0);
+  });
+
+  it('reports rejected credentials as INVALID_CREDENTIALS', async () => {
+    kinesisVideoSend.mockRejectedValueOnce(awsError('UnrecognizedClientException'));
+
+    await expect(createClient('VIEWER').connect()).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+  });
+
+  it('reports a signaling connection that never opens as SIGNALING_TIMEOUT', async () => {
+    FakeSignalingClient.autoOpen = false;
+    const client = createClient('VIEWER', { timeouts: { signalingOpenMs: 20 } });
+
+    await expect(client.connect()).rejects.toMatchObject({ code: 'SIGNALING_TIMEOUT', retryable: true });
+    expect(FakeSignalingClient.latest.isClosed).toBe(true);
+    expect(FakeRTCPeerConnection.latest.isClosed).toBe(true);
+  });
+
+  it('ends the session when no master answers and reconnection is off', async () => {
+    const client = createClient('VIEWER', { timeouts: { answerMs: 20 } });
+    const errors: { code: string; state: string }[] = [];
+    client.on('error', error => errors.push({ code: error.code, state: client.getState() }));
+    await client.connect();
+
+    await sleep(40);
+
+    expect(errors).toEqual([{ code: 'MASTER_NOT_PRESENT', state: 'closed' }]);
+    expect(FakeSignalingClient.latest.isClosed).toBe(true);
+    expect(FakeRTCPeerConnection.latest.isClosed).toBe(true);
+  });
+
+  it('reports a failed peer connection as ICE_FAILED when reconnection is off', async () => {
+    const client = createClient('VIEWER');
+    const onError = vi.fn();
+    client.on('error', onError);
+    await client.connect();
+    await flush();
+
+    FakeRTCPeerConnection.latest.simulateConnectionState('failed');
+
+    expect(onError.mock.calls[0][0].code).toBe('ICE_FAILED');
+    expect(client.getState()).toBe('closed');
+  });
+});
+
+describe('disconnect()', () => {
+  it('closes signaling and peer connections and stops local tracks', async () => {
+    const { stream, tracks } = createFakeStream();
+    const client = createClient('MASTER');
+    await client.connect(stream);
+    FakeSignalingClient.latest.simulate('sdpOffer', { type: 'offer', sdp: 'v=0\r\n' }, 'viewer-1');
+    await flush();
+
+    client.disconnect();
+
+    expect(client.getState()).toBe('closed');
+    expect(FakeSignalingClient.latest.isClosed).toBe(true);
+    expect(FakeRTCPeerConnection.latest.isClosed).toBe(true);
+    tracks.forEach(track => expect(track.stop).toHaveBeenCalled());
+  });
+
+  it('cancels an in-flight connect()', async () => {
+    FakeSignalingClient.autoOpen = false;
+    const client = createClient('VIEWER');
+    const onError = vi.fn();
+    client.on('error', onError);
+
+    const connecting = client.connect();
+    await flush();
+    client.disconnect();
+
+    await expect(connecting).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(onError).not.toHaveBeenCalled();
+    expect(client.getState()).toBe('closed');
+  });
+
+  it('allows connecting again afterwards', async () => {
+    const client = createClient('VIEWER');
+    await client.connect();
+    client.disconnect();
+
+    await client.connect();
+    await flush();
+
+    expect(FakeSignalingClient.instances).toHaveLength(2);
+    expect(FakeSignalingClient.latest.sentOfType('SDP_OFFER')).toHaveLength(1);
+    expect(client.getState()).toBe('negotiating');
+  });
+});
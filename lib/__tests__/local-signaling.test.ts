@@ -0,0 +1,80 @@
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalSignalingServer } from '../../scripts/local-signaling-server.mjs';
+import { KVSConfig, KVSWebRTCClient } from '../kvs-webrtc';
+import { LocalSignalingTransport } from '../kvs-signaling-transport';
+import { FakeRTCPeerConnection, installWebRTCGlobals, silentLogger } from './fakes';
+
+// Master and viewer talk through a real local signaling server on a loopback port; only the
+// peer connections are fake
+describe('local signaling', () => {
+  let server: ReturnType<typeof createLocalSignalingServer>;
+  let url: string;
+  let clients: KVSWebRTCClient[];
+
+  const createClient = (role: 'MASTER' | 'VIEWER', overrides: Partial<KVSConfig> = {}) => {
+    const client = new KVSWebRTCClient({
+      region: 'local',
+      channelName: 'integration',
+      localSignalingUrl: url,
+      // Node 20 has no global WebSocket
+      signalingTransport: config => new LocalSignalingTransport(config, socketUrl => new WebSocket(socketUrl) as any),
+      reconnect: { enabled: false },
+      logger: silentLogger,
+      ...overrides,
+    }, role);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    installWebRTCGlobals();
+    clients = [];
+    server = createLocalSignalingServer({ port: 0, host: '127.0.0.1', log: () => {} });
+    await new Promise(resolve => server.on('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    FakeRTCPeerConnection.reset();
+    vi.unstubAllGlobals();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('relays the offer, answer and ICE candidates between master and viewer', async () => {
+    const master = createClient('MASTER');
+    await master.connect();
+
+    const viewer = createClient('VIEWER');
+    const negotiation = vi.fn();
+    viewer.on('negotiation', negotiation);
+    await viewer.connect();
+
+    const viewerPeerConnection = FakeRTCPeerConnection.latest;
+    await vi.waitFor(() => expect(negotiation).toHaveBeenCalledWith(expect.objectContaining({ type: 'answer', direction: 'received' })));
+
+    const masterPeerConnection = FakeRTCPeerConnection.latest;
+    expect(masterPeerConnection).not.toBe(viewerPeerConnection);
+    expect(masterPeerConnection.remoteDescription?.type).toBe('offer');
+    expect(viewerPeerConnection.remoteDescription?.type).toBe('answer');
+
+    viewerPeerConnection.simulateIceCandidate({ candidate: 'candidate:viewer', sdpMid: '0' });
+    masterPeerConnection.simulateIceCandidate({ candidate: 'candidate:master', sdpMid: '0' });
+    await vi.waitFor(() => {
+      expect(masterPeerConnection.addedCandidates).toEqual([{ candidate: 'candidate:viewer', sdpMid: '0' }]);
+      expect(viewerPeerConnection.addedCandidates).toEqual([{ candidate: 'candidate:master', sdpMid: '0' }]);
+    });
+  });
+
+  it('reports MASTER_NOT_PRESENT when nobody answers on the channel', async () => {
+    const viewer = createClient('VIEWER', { timeouts: { answerMs: 50 } });
+    const onError = vi.fn();
+    viewer.on('error', onError);
+
+    await viewer.connect();
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'MASTER_NOT_PRESENT' })));
+  });
+});
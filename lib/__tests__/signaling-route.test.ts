@@ -0,0 +1,200 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearSignalingChannelCache } from '../kvs-signaling-channel';
+import {
+  PresignedRequestSigner,
+  PresignedSignalingPayload,
+  PresignedSignalingRequest,
+  fetchPresignedSignalingPayload,
+} from '../kvs-presigned';
+import { AccessDeniedError, ChannelNotFoundError } from '../kvs-errors';
+import { TEST_CHANNEL_ARN, TEST_REGION, TEST_WSS_ENDPOINT, awsError, kinesisVideoSend, mockAwsResponses } from './fakes';
+
+// The route signs with whatever the default provider chain finds, so the fake client gets static credentials
+vi.mock('@aws-sdk/client-kinesis-video', async importOriginal => {
+  const { FakeKinesisVideoClient } = await import('./fakes');
+  class ServerKinesisVideoClient extends FakeKinesisVideoClient {
+    constructor(config: { region: string }) {
+      super({ ...config, credentials: async () => ({ accessKeyId: 'AKIASERVER', secretAccessKey: 'server-secret' }) });
+    }
+  }
+  return { ...(await importOriginal<object>()), KinesisVideoClient: ServerKinesisVideoClient };
+});
+
+vi.mock('@aws-sdk/client-kinesis-video-signaling', async importOriginal => {
+  const { FakeKinesisVideoSignalingClient } = await import('./fakes');
+  return { ...(await importOriginal<object>()), KinesisVideoSignalingClient: FakeKinesisVideoSignalingClient };
+});
+
+const CHANNEL_NAME = 'test-channel';
+const MASTER_TOKEN = 'master-token';
+
+let POST: (request: Request) => Promise<Response>;
+
+function createRequest(body: Partial<PresignedSignalingRequest>, token?: string): Request {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return new Request('http://localhost/api/kvs/signaling', { method: 'POST', headers, body: JSON.stringify(body) });
+}
+
+// The route reads its settings once at import
+beforeAll(async () => {
+  vi.stubEnv('KVS_REGION', TEST_REGION);
+  vi.stubEnv('KVS_ALLOWED_CHANNELS', `${CHANNEL_NAME}, lobby`);
+  vi.stubEnv('KVS_ALLOW_MASTER', 'true');
+  vi.stubEnv('KVS_MASTER_TOKEN', MASTER_TOKEN);
+  ({ POST } = await import('@/app/api/kvs/signaling/route.server'));
+});
+
+beforeEach(() => {
+  mockAwsResponses();
+  clearSignalingChannelCache(TEST_REGION, CHANNEL_NAME);
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('signaling route', () => {
+  it('returns a signed viewer URL for an allowed channel', async () => {
+    const response = await POST(createRequest({ channelName: CHANNEL_NAME, role: 'VIEWER', clientId: 'viewer-1' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    const payload: PresignedSignalingPayload = await response.json();
+    expect(payload).toMatchObject({ channelARN: TEST_CHANNEL_ARN, channelEndpoint: TEST_WSS_ENDPOINT, role: 'VIEWER', clientId: 'viewer-1' });
+    const signedUrl = new URL(payload.signedUrl);
+    expect(signedUrl.searchParams.get('X-Amz-ChannelARN')).toBe(TEST_CHANNEL_ARN);
+    expect(signedUrl.searchParams.get('X-Amz-ClientId')).toBe('viewer-1');
+    expect(signedUrl.searchParams.get('X-Amz-Credential')).toMatch(/^AKIASERVER\//);
+    expect(signedUrl.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+    expect(new Date(payload.expiresAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('rejects a channel that is not on the allow list', async () => {
+    const response = await POST(createRequest({ channelName: 'other-channel', role: 'VIEWER', clientId: 'viewer-1' }));
+
+    expect(response.status).toBe(403);
+    expect(kinesisVideoSend).not.toHaveBeenCalled();
+  });
+
+  it('rejects a master request without a token', async () => {
+    const response = await POST(createRequest({ channelName: CHANNEL_NAME, role: 'MASTER' }));
+
+    expect(response.status).toBe(403);
+    expect(kinesisVideoSend).not.toHaveBeenCalled();
+  });
+
+  it('rejects a master request with the wrong token', async () => {
+    const response = await POST(createRequest({ channelName: CHANNEL_NAME, role: 'MASTER' }, 'not-the-token'));
+
+    expect(response.status).toBe(403);
+    expect(kinesisVideoSend).not.toHaveBeenCalled();
+  });
+
+  it('signs a master URL for the right token', async () => {
+    const response = await POST(createRequest({ channelName: CHANNEL_NAME, role: 'MASTER' }, MASTER_TOKEN));
+
+    expect(response.status).toBe(200);
+    const payload: PresignedSignalingPayload = await response.json();
+    expect(payload.role).toBe('MASTER');
+    expect(new URL(payload.signedUrl).searchParams.has('X-Amz-ClientId')).toBe(false);
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['empty', ''],
+    ['with a query string', 'viewer-1&X-Amz-ChannelARN=other'],
+    ['too long', 'v'.repeat(257)],
+  ])('rejects a viewer clientId that is %s', async (_, clientId) => {
+    const response = await POST(createRequest({ channelName: CHANNEL_NAME, role: 'VIEWER', clientId }));
+
+    expect(response.status).toBe(400);
+    expect(kinesisVideoSend).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown role and a malformed body', async () => {
+    expect((await POST(createRequest({ channelName: CHANNEL_NAME, role: 'ADMIN' as 'MASTER' }))).status).toBe(400);
+    const malformed = new Request('http://localhost/api/kvs/signaling', { method: 'POST', body: 'not json' });
+    expect((await POST(malformed)).status).toBe(400);
+  });
+
+  it('answers 404 for an allowed channel that does not exist', async () => {
+    kinesisVideoSend.mockRejectedValueOnce(awsError('ResourceNotFoundException'));
+
+    const response = await POST(createRequest({ channelName: 'lobby', role: 'VIEWER', clientId: 'viewer-1' }));
+
+    expect(response.status).toBe(404);
+  });
+});
+
+function createPayload(signedUrl: string, expiresInMs: number): PresignedSignalingPayload {
+  return {
+    channelARN: TEST_CHANNEL_ARN,
+    channelEndpoint: TEST_WSS_ENDPOINT,
+    role: 'VIEWER',
+    clientId: 'viewer-1',
+    signedUrl,
+    iceServers: [],
+    iceServersExpireAt: Date.now() + expiresInMs,
+    expiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+  };
+}
+
+describe('PresignedRequestSigner', () => {
+  it('reuses the vended URL while it is fresh', async () => {
+    const fetchPayload = vi.fn(async () => createPayload('wss://refreshed', 299000));
+    const signer = new PresignedRequestSigner(fetchPayload, createPayload('wss://initial', 299000));
+
+    expect(await signer.getSignedURL()).toBe('wss://initial');
+    expect(fetchPayload).not.toHaveBeenCalled();
+  });
+
+  it('fetches a new URL once the current one is about to expire', async () => {
+    const fetchPayload = vi.fn(async () => createPayload('wss://refreshed', 299000));
+    const signer = new PresignedRequestSigner(fetchPayload, createPayload('wss://initial', 10000));
+
+    expect(await signer.getSignedURL()).toBe('wss://refreshed');
+    expect(await signer.getSignedURL()).toBe('wss://refreshed');
+    expect(fetchPayload).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches the first URL when it has none', async () => {
+    const fetchPayload = vi.fn(async () => createPayload('wss://first', 299000));
+
+    expect(await new PresignedRequestSigner(fetchPayload).getSignedURL()).toBe('wss://first');
+  });
+});
+
+describe('fetchPresignedSignalingPayload', () => {
+  const request: PresignedSignalingRequest = { channelName: CHANNEL_NAME, role: 'MASTER' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('presents the master token as a bearer token', async () => {
+    const fetch = vi.fn(async () => Response.json(createPayload('wss://master', 299000)));
+    vi.stubGlobal('fetch', fetch);
+
+    const payload = await fetchPresignedSignalingPayload('/api/kvs/signaling', request, MASTER_TOKEN);
+
+    expect(payload.signedUrl).toBe('wss://master');
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/kvs/signaling');
+    expect(init.headers).toMatchObject({ Authorization: `Bearer ${MASTER_TOKEN}` });
+    expect(JSON.parse(init.body as string)).toEqual(request);
+  });
+
+  it('maps refusals to typed errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'Not allowed to connect as MASTER' }, { status: 403 })));
+    await expect(fetchPresignedSignalingPayload('/api/kvs/signaling', request)).rejects.toBeInstanceOf(AccessDeniedError);
+
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({}, { status: 404 })));
+    await expect(fetchPresignedSignalingPayload('/api/kvs/signaling', request)).rejects.toBeInstanceOf(ChannelNotFoundError);
+  });
+});
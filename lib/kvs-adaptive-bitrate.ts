@@ -0,0 +1,245 @@
+import { TypedEventEmitter } from './kvs-events';
+import { EncodingOptions, VideoEncodingOptions } from './kvs-encoding';
+import { KVSLogger, consoleLogger } from './kvs-logger';
+import { PeerStatsSnapshot, createStatsSnapshot } from './kvs-stats';
+
+export interface AdaptiveBitrateOptions {
+  intervalMs: number;
+  // Encoding steps from best to most conservative; every viewer starts on the first
+  levels: VideoEncodingOptions[];
+  // Stepping down happens as soon as either of these is crossed
+  maxPacketLoss: number;
+  maxRttMs: number;
+  // A bandwidth estimate below the current maxBitrate only steps down after this many consecutive samples,
+  // since the estimate starts low and ramps up right after connect
+  stepDownSamples: number;
+  // Stepping up needs all of these for stepUpSamples consecutive samples, so levels don't flap
+  recoverPacketLoss: number;
+  recoverRttMs: number;
+  stepUpSamples: number;
+  // Available outgoing bitrate must exceed the current level's maxBitrate by this factor to step up;
+  // the estimate tends to stay near what is being sent, so the next level's cap would rarely be reached
+  stepUpHeadroom: number;
+}
+
+export const DEFAULT_BITRATE_LEVELS: VideoEncodingOptions[] = [
+  { maxBitrate: 2500000, maxFramerate: 30, scaleResolutionDownBy: 1 },
+  { maxBitrate: 1200000, maxFramerate: 30, scaleResolutionDownBy: 1 },
+  { maxBitrate: 600000, maxFramerate: 24, scaleResolutionDownBy: 1.5 },
+  { maxBitrate: 300000, maxFramerate: 15, scaleResolutionDownBy: 2 },
+  { maxBitrate: 150000, maxFramerate: 10, scaleResolutionDownBy: 4 },
+];
+
+export const DEFAULT_ADAPTIVE_BITRATE_OPTIONS: AdaptiveBitrateOptions = {
+  intervalMs: 2000,
+  levels: DEFAULT_BITRATE_LEVELS,
+  maxPacketLoss: 0.05,
+  maxRttMs: 400,
+  stepDownSamples: 3,
+  recoverPacketLoss: 0.01,
+  recoverRttMs: 250,
+  stepUpSamples: 5,
+  stepUpHeadroom: 1.2,
+};
+
+export function resolveAdaptiveBitrateOptions(options?: boolean | Partial<AdaptiveBitrateOptions>): AdaptiveBitrateOptions {
+  return { ...DEFAULT_ADAPTIVE_BITRATE_OPTIONS, ...(typeof options === 'object' ? options : {}) };
+}
+
+export interface BitrateSample {
+  // Fraction of packets lost since the previous sample, 0..1
+  packetLoss?: number;
+  rttMs?: number;
+  // Bandwidth estimate of the selected candidate pair, bits per second
+  availableOutgoingBitrate?: number;
+  // Measured video send rate, bits per second
+  sendBitrate?: number;
+}
+
+export interface BitrateDecision {
+  remoteClientId: string;
+  direction: 'up' | 'down';
+  level: number;
+  previousLevel: number;
+  encoding: VideoEncodingOptions;
+  reason: string;
+  sample: BitrateSample;
+  timestamp: number;
+}
+
+// The sent video track's loss and send rate, with the connection's RTT and bandwidth estimate
+export function readBitrateSample(snapshot: PeerStatsSnapshot): BitrateSample {
+  const video = snapshot.tracks.find(track => track.direction === 'outbound' && track.kind === 'video');
+  return {
+    packetLoss: video?.packetLoss === undefined ? undefined : video.packetLoss / 100,
+    rttMs: snapshot.rttMs,
+    availableOutgoingBitrate: snapshot.candidatePair?.availableOutgoingBitrate,
+    sendBitrate: video?.bitrate,
+  };
+}
+
+// What the controller needs from the client; KVSWebRTCClient provides all of it
+export interface AdaptiveBitrateTarget {
+  getViewerIds(): string[];
+  getStats(remoteClientId: string): Promise<RTCStatsReport> | undefined;
+  setEncodingParameters(options: EncodingOptions, remoteClientId: string): Promise<void>;
+}
+
+export interface AdaptiveBitrateEvents {
+  adaptation: (decision: BitrateDecision) => void;
+  sample: (sample: BitrateSample, remoteClientId: string) => void;
+}
+
+interface ViewerState {
+  level: number;
+  goodSamples: number;
+  lowBandwidthSamples: number;
+  report?: RTCStatsReport;
+}
+
+// Polls each viewer's stats and moves its video sender along the level ladder
+export class AdaptiveBitrateController extends TypedEventEmitter<AdaptiveBitrateEvents> {
+  private target: AdaptiveBitrateTarget;
+  private options: AdaptiveBitrateOptions;
+  private viewers = new Map<string, ViewerState>();
+  private timer?: ReturnType<typeof setInterval>;
+  private polling = false;
+  private logger: KVSLogger;
+
+  constructor(target: AdaptiveBitrateTarget, options?: Partial<AdaptiveBitrateOptions>, logger: KVSLogger = consoleLogger) {
+    super();
+    this.target = target;
+    this.logger = logger;
+    this.options = resolveAdaptiveBitrateOptions(options);
+    if (this.options.levels.length === 0) {
+      throw new Error('Adaptive bitrate needs at least one level');
+    }
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll();
+    }, this.options.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.viewers.clear();
+  }
+
+  getLevel(remoteClientId: string): number | undefined {
+    return this.viewers.get(remoteClientId)?.level;
+  }
+
+  getLevels(): VideoEncodingOptions[] {
+    return this.options.levels;
+  }
+
+  async poll(): Promise<void> {
+    // A slow getStats() must not stack up polls
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const viewerIds = this.target.getViewerIds();
+      Array.from(this.viewers.keys()).forEach(remoteClientId => {
+        if (!viewerIds.includes(remoteClientId)) {
+          this.viewers.delete(remoteClientId);
+        }
+      });
+      await Promise.all(viewerIds.map(remoteClientId => this.pollViewer(remoteClientId).catch(error => {
+        // The viewer may have left mid-poll; its state is dropped on the next poll
+        this.logger.warn('Adaptive bitrate poll failed', { remoteClientId, error });
+      })));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollViewer(remoteClientId: string): Promise<void> {
+    let state = this.viewers.get(remoteClientId);
+    if (!state) {
+      // New viewers start on the best level
+      state = { level: 0, goodSamples: 0, lowBandwidthSamples: 0 };
+      this.viewers.set(remoteClientId, state);
+      await this.target.setEncodingParameters({ video: this.options.levels[0] }, remoteClientId);
+    }
+
+    const report = await this.target.getStats(remoteClientId);
+    if (!report || this.viewers.get(remoteClientId) !== state) return;
+
+    const previousReport = state.report;
+    state.report = report;
+    const sample = readBitrateSample(createStatsSnapshot(remoteClientId, report, previousReport));
+    this.emit('sample', sample, remoteClientId);
+    // Loss is a rate between two reports, so the first one only sets the baseline
+    if (!previousReport) return;
+
+    await this.evaluate(remoteClientId, state, sample);
+  }
+
+  private async evaluate(remoteClientId: string, state: ViewerState, sample: BitrateSample): Promise<void> {
+    const {
+      levels, maxPacketLoss, maxRttMs, stepDownSamples, recoverPacketLoss, recoverRttMs, stepUpSamples, stepUpHeadroom,
+    } = this.options;
+    const current = levels[state.level];
+    const packetLoss = sample.packetLoss || 0;
+    const rttMs = sample.rttMs || 0;
+
+    const lowBandwidth = !!sample.availableOutgoingBitrate && !!current.maxBitrate &&
+      sample.availableOutgoingBitrate < current.maxBitrate;
+    state.lowBandwidthSamples = lowBandwidth ? state.lowBandwidthSamples + 1 : 0;
+
+    let downReason: string | undefined;
+    if (packetLoss > maxPacketLoss) {
+      downReason = `packet loss ${(packetLoss * 100).toFixed(1)}%`;
+    } else if (rttMs > maxRttMs) {
+      downReason = `round trip ${Math.round(rttMs)} ms`;
+    } else if (state.lowBandwidthSamples >= stepDownSamples) {
+      downReason = `estimated bandwidth ${Math.round((sample.availableOutgoingBitrate || 0) / 1000)} kbps`;
+    }
+
+    if (downReason) {
+      state.goodSamples = 0;
+      state.lowBandwidthSamples = 0;
+      if (state.level < levels.length - 1) {
+        await this.changeLevel(remoteClientId, state, state.level + 1, downReason, sample);
+      }
+      return;
+    }
+
+    const next = levels[state.level - 1];
+    const hasHeadroom = !current.maxBitrate || !sample.availableOutgoingBitrate ||
+      sample.availableOutgoingBitrate >= current.maxBitrate * stepUpHeadroom;
+    if (packetLoss <= recoverPacketLoss && rttMs <= recoverRttMs && hasHeadroom) {
+      state.goodSamples++;
+    } else {
+      state.goodSamples = 0;
+    }
+
+    if (next && state.goodSamples >= stepUpSamples) {
+      state.goodSamples = 0;
+      await this.changeLevel(remoteClientId, state, state.level - 1, `stable for ${stepUpSamples} samples`, sample);
+    }
+  }
+
+  private async changeLevel(remoteClientId: string, state: ViewerState, level: number, reason: string, sample: BitrateSample): Promise<void> {
+    const previousLevel = state.level;
+    const encoding = this.options.levels[level];
+    state.level = level;
+    await this.target.setEncodingParameters({ video: encoding }, remoteClientId);
+    this.emit('adaptation', {
+      remoteClientId,
+      direction: level > previousLevel ? 'down' : 'up',
+      level,
+      previousLevel,
+      encoding,
+      reason,
+      sample,
+      timestamp: Date.now(),
+    });
+  }
+}
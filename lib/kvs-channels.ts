@@ -0,0 +1,237 @@
+import {
+  KinesisVideoClient,
+  ChannelInfo,
+  CreateSignalingChannelCommand,
+  DeleteSignalingChannelCommand,
+  DescribeSignalingChannelCommand,
+  ListSignalingChannelsCommand,
+  ListTagsForResourceCommand,
+  UpdateSignalingChannelCommand,
+} from '@aws-sdk/client-kinesis-video';
+import { clearSignalingChannelCache } from './kvs-signaling-channel';
+import { resolveCredentialsProvider } from './kvs-credentials';
+import { isChannelNotFoundError } from './kvs-errors';
+import { KVSLogger, consoleLogger } from './kvs-logger';
+import type { KVSConfig } from './kvs-webrtc';
+
+// KVS accepts message TTLs between 5 and 120 seconds and defaults to 60
+export const MIN_MESSAGE_TTL_SECONDS = 5;
+export const MAX_MESSAGE_TTL_SECONDS = 120;
+export const DEFAULT_MESSAGE_TTL_SECONDS = 60;
+
+// New channels report CREATING for a few seconds and reject endpoint lookups until ACTIVE
+const CHANNEL_ACTIVE_POLL_INTERVAL_MS = 1000;
+const CHANNEL_ACTIVE_TIMEOUT_MS = 30 * 1000;
+
+export interface SignalingChannel {
+  name: string;
+  arn: string;
+  status: string;
+  createdAt?: Date;
+  messageTtlSeconds: number;
+  // Required by update and delete to guard against concurrent changes
+  version: string;
+  // Only populated when requested, since each lookup is an extra call per channel
+  tags?: Record<string, string>;
+}
+
+export interface ListChannelsOptions {
+  namePrefix?: string;
+  // Channels must carry every listed key with the given value
+  tags?: Record<string, string>;
+  maxResults?: number;
+  nextToken?: string;
+}
+
+export interface ListChannelsResult {
+  channels: SignalingChannel[];
+  nextToken?: string;
+}
+
+export interface CreateChannelOptions {
+  messageTtlSeconds?: number;
+  tags?: Record<string, string>;
+}
+
+export interface UpdateChannelOptions {
+  messageTtlSeconds: number;
+}
+
+function toSignalingChannel(info: ChannelInfo): SignalingChannel {
+  return {
+    name: info.ChannelName!,
+    arn: info.ChannelARN!,
+    status: info.ChannelStatus || 'UNKNOWN',
+    createdAt: info.CreationTime,
+    messageTtlSeconds: info.SingleMasterConfiguration?.MessageTtlSeconds ?? DEFAULT_MESSAGE_TTL_SECONDS,
+    version: info.Version!,
+  };
+}
+
+function matchesTags(tags: Record<string, string>, filter: Record<string, string>): boolean {
+  return Object.keys(filter).every(key => tags[key] === filter[key]);
+}
+
+function validateMessageTtl(messageTtlSeconds: number): void {
+  if (
+    !Number.isInteger(messageTtlSeconds) ||
+    messageTtlSeconds < MIN_MESSAGE_TTL_SECONDS ||
+    messageTtlSeconds > MAX_MESSAGE_TTL_SECONDS
+  ) {
+    throw new Error(`Message TTL must be a whole number between ${MIN_MESSAGE_TTL_SECONDS} and ${MAX_MESSAGE_TTL_SECONDS} seconds`);
+  }
+}
+
+// Signaling channel administration on top of the control plane client
+export class KVSChannelManager {
+  private kinesisVideoClient: KinesisVideoClient;
+  private logger: KVSLogger;
+
+  constructor(kinesisVideoClient: KinesisVideoClient, logger: KVSLogger = consoleLogger) {
+    this.kinesisVideoClient = kinesisVideoClient;
+    this.logger = logger;
+  }
+
+  // Same credential handling as KVSWebRTCClient; server mode has no browser-side credentials to manage with
+  static fromConfig(config: Pick<KVSConfig, 'region' | 'credentials' | 'accessKeyId' | 'secretAccessKey' | 'sessionToken' | 'logger'>): KVSChannelManager {
+    const credentials = resolveCredentialsProvider(config);
+    if (!credentials) {
+      throw new Error('Channel management requires credentials or accessKeyId and secretAccessKey');
+    }
+    return new KVSChannelManager(new KinesisVideoClient({ region: config.region, credentials }), config.logger);
+  }
+
+  // One page of channels. ListSignalingChannels only filters by name prefix, so tag filters are
+  // applied to each page after the fact and a filtered page may hold fewer than maxResults.
+  async listChannels(options: ListChannelsOptions = {}): Promise<ListChannelsResult> {
+    const response = await this.kinesisVideoClient.send(new ListSignalingChannelsCommand({
+      MaxResults: options.maxResults,
+      NextToken: options.nextToken,
+      ChannelNameCondition: options.namePrefix
+        ? { ComparisonOperator: 'BEGINS_WITH', ComparisonValue: options.namePrefix }
+        : undefined,
+    }));
+
+    let channels = (response.ChannelInfoList || []).map(toSignalingChannel);
+
+    if (options.tags && Object.keys(options.tags).length > 0) {
+      const filter = options.tags;
+      await Promise.all(channels.map(async channel => {
+        channel.tags = await this.getTags(channel.arn);
+      }));
+      channels = channels.filter(channel => matchesTags(channel.tags!, filter));
+    }
+
+    return { channels, nextToken: response.NextToken };
+  }
+
+  async describeChannel(channelName: string): Promise<SignalingChannel> {
+    const channel = await this.getChannel(channelName);
+    channel.tags = await this.getTags(channel.arn);
+    return channel;
+  }
+
+  // Resolves once the channel is ACTIVE and usable for signaling
+  async createChannel(channelName: string, options: CreateChannelOptions = {}): Promise<SignalingChannel> {
+    const messageTtlSeconds = options.messageTtlSeconds ?? DEFAULT_MESSAGE_TTL_SECONDS;
+    validateMessageTtl(messageTtlSeconds);
+
+    const tags = Object.entries(options.tags || {}).map(([Key, Value]) => ({ Key, Value }));
+    await this.kinesisVideoClient.send(new CreateSignalingChannelCommand({
+      ChannelName: channelName,
+      ChannelType: 'SINGLE_MASTER',
+      SingleMasterConfiguration: { MessageTtlSeconds: messageTtlSeconds },
+      Tags: tags.length > 0 ? tags : undefined,
+    }));
+    this.logger.info('Created signaling channel', { channel: channelName, messageTtlSeconds });
+
+    return this.waitForActive(channelName);
+  }
+
+  async updateChannel(channelName: string, options: UpdateChannelOptions): Promise<SignalingChannel> {
+    validateMessageTtl(options.messageTtlSeconds);
+
+    const channel = await this.getChannel(channelName);
+    await this.kinesisVideoClient.send(new UpdateSignalingChannelCommand({
+      ChannelARN: channel.arn,
+      CurrentVersion: channel.version,
+      SingleMasterConfiguration: { MessageTtlSeconds: options.messageTtlSeconds },
+    }));
+    this.logger.info('Updated signaling channel', { channel: channelName, messageTtlSeconds: options.messageTtlSeconds });
+
+    return this.waitForActive(channelName);
+  }
+
+  async deleteChannel(channelName: string): Promise<void> {
+    const channel = await this.getChannel(channelName);
+    await this.kinesisVideoClient.send(new DeleteSignalingChannelCommand({
+      ChannelARN: channel.arn,
+      CurrentVersion: channel.version,
+    }));
+    this.logger.info('Deleted signaling channel', { channel: channelName });
+
+    // Cached endpoints would otherwise outlive the channel, or point at the old one if it is recreated
+    clearSignalingChannelCache(await this.kinesisVideoClient.config.region(), channelName);
+  }
+
+  // Used by KVSConfig.createChannelIfMissing; skips tags so peers only need the describe and create permissions
+  async ensureChannel(channelName: string, options: CreateChannelOptions = {}): Promise<SignalingChannel> {
+    try {
+      const channel = await this.getChannel(channelName);
+      return channel.status === 'ACTIVE' ? channel : await this.waitForActive(channelName);
+    } catch (error) {
+      if (!isChannelNotFoundError(error)) {
+        throw error;
+      }
+    }
+
+    this.logger.info('Signaling channel not found, creating it', { channel: channelName });
+    try {
+      return await this.createChannel(channelName, options);
+    } catch (error) {
+      // Another peer created it first
+      if (error instanceof Error && error.name === 'ResourceInUseException') {
+        return this.waitForActive(channelName);
+      }
+      throw error;
+    }
+  }
+
+  private async getChannel(channelName: string): Promise<SignalingChannel> {
+    const response = await this.kinesisVideoClient.send(new DescribeSignalingChannelCommand({
+      ChannelName: channelName,
+    }));
+    return toSignalingChannel(response.ChannelInfo!);
+  }
+
+  private async getTags(channelARN: string): Promise<Record<string, string>> {
+    const tags: Record<string, string> = {};
+    let nextToken: string | undefined;
+    do {
+      const response = await this.kinesisVideoClient.send(new ListTagsForResourceCommand({
+        ResourceARN: channelARN,
+        NextToken: nextToken,
+      }));
+      Object.assign(tags, response.Tags);
+      nextToken = response.NextToken;
+    } while (nextToken);
+    return tags;
+  }
+
+  private async waitForActive(channelName: string): Promise<SignalingChannel> {
+    const deadline = Date.now() + CHANNEL_ACTIVE_TIMEOUT_MS;
+    while (true) {
+      const channel = await this.getChannel(channelName);
+      if (channel.status === 'ACTIVE') {
+        return channel;
+      }
+      if (channel.status === 'DELETING') {
+        throw new Error(`Signaling channel ${channelName} is being deleted`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Signaling channel ${channelName} did not become active (status: ${channel.status})`);
+      }
+      await new Promise(resolve => setTimeout(resolve, CHANNEL_ACTIVE_POLL_INTERVAL_MS));
+    }
+  }
+}
@@ -0,0 +1,45 @@
+// KVS rejects SigV4 signatures more than five minutes away from its own clock
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Offsets closer than this to the one already in use are measurement noise, not a correction
+export const MIN_CLOCK_CORRECTION_MS = 60 * 1000;
+
+export interface ClockSkewMeasurement {
+  // Server time minus local time, as expected by systemClockOffset
+  offsetMs: number;
+  // control-plane: taken from the SDK's Date header tracking; skew-error: parsed from a rejected signature
+  source: 'control-plane' | 'skew-error';
+  measuredAt: Date;
+}
+
+const CLOCK_SKEW_ERROR_NAMES = ['InvalidSignatureException', 'RequestTimeTooSkewed', 'RequestExpired', 'SignatureDoesNotMatch'];
+
+// e.g. "Signature expired: 20240101T000000Z is now earlier than 20240101T001000Z (20240101T001500Z - 5 min.)"
+const SERVER_TIME_PATTERN = /\((\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z [+-] \d+ min\.\)/;
+
+export function isClockSkewError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return CLOCK_SKEW_ERROR_NAMES.includes(error.name) &&
+    /signature expired|not yet current|skew/i.test(error.message);
+}
+
+export function getServerTimeFromSkewError(error: unknown): Date | undefined {
+  if (!(error instanceof Error)) return undefined;
+
+  const serverTime = (error as any).ServerTime;
+  if (serverTime) {
+    const parsed = new Date(serverTime);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+
+  const match = error.message.match(SERVER_TIME_PATTERN);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+export function formatClockSkew(offsetMs: number): string {
+  const seconds = offsetMs / 1000;
+  return `${seconds >= 0 ? '+' : ''}${seconds.toFixed(1)}s`;
+}
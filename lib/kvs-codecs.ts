@@ -0,0 +1,155 @@
+export type VideoCodec =
+  | 'H264'
+  | 'H264-constrained-baseline'
+  | 'H264-baseline'
+  | 'H264-main'
+  | 'H264-high'
+  | 'VP8'
+  | 'VP9'
+  | 'AV1';
+
+export type AudioCodec = 'opus' | 'G722' | 'PCMU' | 'PCMA';
+
+export interface CodecPreferences {
+  // In order of preference; codecs not listed keep the browser's order after them
+  video?: VideoCodec[];
+  audio?: AudioCodec[];
+  // Negotiate only the listed codecs, e.g. for viewers that can only decode H.264
+  restrict?: boolean;
+}
+
+export const VIDEO_CODECS: VideoCodec[] = [
+  'H264',
+  'H264-constrained-baseline',
+  'H264-baseline',
+  'H264-main',
+  'H264-high',
+  'VP8',
+  'VP9',
+  'AV1',
+];
+
+export const AUDIO_CODECS: AudioCodec[] = ['opus', 'G722', 'PCMU', 'PCMA'];
+
+export const CODEC_LABELS: Record<VideoCodec | AudioCodec, string> = {
+  'H264': 'H.264 (any profile)',
+  'H264-constrained-baseline': 'H.264 Constrained Baseline',
+  'H264-baseline': 'H.264 Baseline',
+  'H264-main': 'H.264 Main',
+  'H264-high': 'H.264 High',
+  'VP8': 'VP8',
+  'VP9': 'VP9',
+  'AV1': 'AV1',
+  'opus': 'Opus',
+  'G722': 'G.722',
+  'PCMU': 'G.711 µ-law',
+  'PCMA': 'G.711 A-law',
+};
+
+// First two bytes of profile-level-id: profile_idc and the constraint flags that tell the profiles apart
+const H264_PROFILE_PREFIXES: Partial<Record<VideoCodec, string[]>> = {
+  'H264-constrained-baseline': ['42e0', '4240'],
+  'H264-baseline': ['4200'],
+  'H264-main': ['4d'],
+  'H264-high': ['64'],
+};
+
+// Retransmission and error correction entries are not media codecs; they follow whatever is negotiated
+const RESILIENCE_MIME_TYPES = ['video/rtx', 'video/red', 'video/ulpfec', 'video/flexfec-03', 'audio/red'];
+
+function getProfileLevelId(codec: RTCRtpCodecCapability): string | undefined {
+  return codec.sdpFmtpLine?.match(/profile-level-id=([0-9a-f]{6})/i)?.[1].toLowerCase();
+}
+
+export function matchesCodec(codec: RTCRtpCodecCapability, name: VideoCodec | AudioCodec): boolean {
+  const [, subtype] = codec.mimeType.split('/');
+  const family = name.startsWith('H264') ? 'H264' : name;
+  if (subtype?.toLowerCase() !== family.toLowerCase()) return false;
+
+  const prefixes = H264_PROFILE_PREFIXES[name as VideoCodec];
+  if (!prefixes) return true;
+  const profileLevelId = getProfileLevelId(codec);
+  return !!profileLevelId && prefixes.some(prefix => profileLevelId.startsWith(prefix));
+}
+
+function isResilienceCodec(codec: RTCRtpCodecCapability): boolean {
+  return RESILIENCE_MIME_TYPES.includes(codec.mimeType.toLowerCase());
+}
+
+// Reorders the browser's capabilities by preference. Returns an empty list if restricting leaves no
+// media codec, which callers treat as "cannot apply".
+export function orderCodecs(
+  capabilities: RTCRtpCodecCapability[],
+  preferred: (VideoCodec | AudioCodec)[],
+  restrict = false
+): RTCRtpCodecCapability[] {
+  const ordered: RTCRtpCodecCapability[] = [];
+  preferred.forEach(name => {
+    capabilities.forEach(codec => {
+      if (matchesCodec(codec, name) && !ordered.includes(codec)) {
+        ordered.push(codec);
+      }
+    });
+  });
+
+  if (ordered.length === 0 && restrict) return [];
+
+  const rest = capabilities.filter(codec => !ordered.includes(codec) && (!restrict || isResilienceCodec(codec)));
+  return [...ordered, ...rest];
+}
+
+// Video codecs the browser can receive, for pickers
+export function getSupportedVideoCodecs(): VideoCodec[] {
+  if (typeof RTCRtpReceiver === 'undefined' || !RTCRtpReceiver.getCapabilities) return [];
+  const capabilities = RTCRtpReceiver.getCapabilities('video')?.codecs || [];
+  return VIDEO_CODECS.filter(name => capabilities.some(codec => matchesCodec(codec, name)));
+}
+
+// Applies the preferences to every transceiver of the peer connection. Has to run before createOffer,
+// or before createAnswer once the remote offer is set. Returns the kinds that could not be applied.
+export function applyCodecPreferences(peerConnection: RTCPeerConnection, preferences: CodecPreferences): string[] {
+  const skipped: string[] = [];
+  peerConnection.getTransceivers().forEach(transceiver => {
+    const kind = transceiver.receiver.track.kind as 'audio' | 'video';
+    const preferred = kind === 'video' ? preferences.video : preferences.audio;
+    if (!preferred || preferred.length === 0) return;
+
+    const capabilities = typeof RTCRtpReceiver !== 'undefined' && RTCRtpReceiver.getCapabilities
+      ? RTCRtpReceiver.getCapabilities(kind)?.codecs
+      : undefined;
+    const codecs = capabilities ? orderCodecs(capabilities, preferred, preferences.restrict) : [];
+    if (!transceiver.setCodecPreferences || codecs.length === 0) {
+      skipped.push(kind);
+      return;
+    }
+    transceiver.setCodecPreferences(codecs);
+  });
+  return skipped;
+}
+
+export interface NegotiatedCodecs {
+  video?: string;
+  audio?: string;
+}
+
+export function formatCodec(codec: any): string {
+  const name = codec.mimeType.split('/')[1];
+  const profileLevelId = getProfileLevelId(codec);
+  return profileLevelId ? `${name} (${profileLevelId})` : name;
+}
+
+// Reads the codec of the active RTP streams from a stats report, sending side first
+export function getNegotiatedCodecs(report: RTCStatsReport): NegotiatedCodecs {
+  const codecs: NegotiatedCodecs = {};
+  ['outbound-rtp', 'inbound-rtp'].forEach(type => {
+    report.forEach(stats => {
+      if (stats.type !== type || !stats.codecId) return;
+      const kind = stats.kind as keyof NegotiatedCodecs;
+      const codec = report.get(stats.codecId);
+      if (codec && !codecs[kind]) {
+        codecs[kind] = formatCodec(codec);
+      }
+    });
+  });
+  return codecs;
+}
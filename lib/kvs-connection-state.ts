@@ -0,0 +1,43 @@
+// Lifecycle of a KVSWebRTCClient session:
+// idle -> resolving (credentials, channel, ICE servers) -> signaling (WebSocket opening)
+// -> negotiating (viewer offer out) -> connected -> reconnecting -> ... -> closed
+// The master has no negotiation of its own and goes straight from signaling to connected.
+export type ConnectionState =
+  | 'idle'
+  | 'resolving'
+  | 'signaling'
+  | 'negotiating'
+  | 'connected'
+  | 'reconnecting'
+  | 'closed';
+
+const ALLOWED_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  idle: ['resolving', 'closed'],
+  resolving: ['signaling', 'closed'],
+  signaling: ['negotiating', 'connected', 'closed'],
+  negotiating: ['connected', 'reconnecting', 'closed'],
+  connected: ['reconnecting', 'closed'],
+  reconnecting: ['connected', 'closed'],
+  // A closed client can be connected again
+  closed: ['resolving'],
+};
+
+export function canTransition(from: ConnectionState, to: ConnectionState): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export interface ConnectionTimeouts {
+  // How long the signaling WebSocket may take to open
+  signalingOpenMs: number;
+  // How long a viewer waits for the master to answer its offer before reporting it absent
+  answerMs: number;
+}
+
+export const DEFAULT_CONNECTION_TIMEOUTS: ConnectionTimeouts = {
+  signalingOpenMs: 10000,
+  answerMs: 15000,
+};
+
+export function resolveConnectionTimeouts(overrides?: Partial<ConnectionTimeouts>): ConnectionTimeouts {
+  return { ...DEFAULT_CONNECTION_TIMEOUTS, ...overrides };
+}
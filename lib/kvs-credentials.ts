@@ -0,0 +1,116 @@
+// Structurally compatible with the AWS SDK's AwsCredentialIdentity/AwsCredentialIdentityProvider,
+// so SDK providers such as fromCognitoIdentityPool() can be passed in directly
+export interface KVSCredentialIdentity {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+export type KVSCredentialProvider = () => Promise<KVSCredentialIdentity>;
+
+export type KVSCredentials = KVSCredentialIdentity | KVSCredentialProvider;
+
+// Refresh temporary credentials this long before they expire, so no request is signed with expiring keys
+export const CREDENTIALS_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+export function fromStaticCredentials(accessKeyId: string, secretAccessKey: string, sessionToken?: string): KVSCredentialProvider {
+  const identity: KVSCredentialIdentity = { accessKeyId, secretAccessKey, sessionToken: sessionToken || undefined };
+  return () => Promise.resolve(identity);
+}
+
+// Fetches temporary credentials from a backend endpoint. Accepts both camelCase and the
+// STS-style PascalCase shape ({ AccessKeyId, SecretAccessKey, SessionToken, Expiration }).
+export function fromCredentialsEndpoint(url: string, init?: RequestInit): KVSCredentialProvider {
+  return async () => {
+    const response = await fetch(url, { credentials: 'same-origin', ...init });
+    if (!response.ok) {
+      throw new Error(`Credentials endpoint responded with ${response.status}`);
+    }
+
+    const body = await response.json();
+    const credentials = body.Credentials || body.credentials || body;
+    const accessKeyId = credentials.accessKeyId || credentials.AccessKeyId;
+    const secretAccessKey = credentials.secretAccessKey || credentials.SecretAccessKey;
+    const sessionToken = credentials.sessionToken || credentials.SessionToken;
+    const expiration = credentials.expiration || credentials.Expiration;
+
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('Credentials endpoint returned no access key');
+    }
+
+    return {
+      accessKeyId,
+      secretAccessKey,
+      sessionToken,
+      expiration: expiration ? new Date(expiration) : undefined,
+    };
+  };
+}
+
+// Memoizes a provider, re-resolving it when the cached identity is about to expire.
+// Concurrent callers share one in-flight request.
+export function createRefreshingProvider(
+  source: KVSCredentials,
+  refreshWindowMs: number = CREDENTIALS_REFRESH_WINDOW_MS
+): KVSCredentialProvider {
+  if (typeof source !== 'function') {
+    return () => Promise.resolve(source);
+  }
+
+  let cached: KVSCredentialIdentity | undefined;
+  let pending: Promise<KVSCredentialIdentity> | undefined;
+
+  const needsRefresh = () =>
+    !cached || (!!cached.expiration && cached.expiration.getTime() - Date.now() <= refreshWindowMs);
+
+  return () => {
+    if (!needsRefresh()) {
+      return Promise.resolve(cached!);
+    }
+
+    if (!pending) {
+      pending = source()
+        .then(identity => {
+          cached = identity;
+          return identity;
+        })
+        .finally(() => {
+          pending = undefined;
+        });
+    }
+    return pending;
+  };
+}
+
+// Picks the provider for a KVSConfig-style options object; credentials take precedence over static keys
+export function resolveCredentialsProvider(options: {
+  credentials?: KVSCredentials;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+}): KVSCredentialProvider | undefined {
+  if (options.credentials) {
+    return createRefreshingProvider(options.credentials);
+  }
+  if (options.accessKeyId && options.secretAccessKey) {
+    return fromStaticCredentials(options.accessKeyId, options.secretAccessKey, options.sessionToken);
+  }
+  return undefined;
+}
+
+// The signaling SDK takes a mutable credentials object and awaits getPromise() before signing each URL
+export function toSignalingCredentials(provider: KVSCredentialProvider) {
+  const credentials = {
+    accessKeyId: '',
+    secretAccessKey: '',
+    sessionToken: undefined as string | undefined,
+    getPromise: async () => {
+      const identity = await provider();
+      credentials.accessKeyId = identity.accessKeyId;
+      credentials.secretAccessKey = identity.secretAccessKey;
+      credentials.sessionToken = identity.sessionToken;
+    },
+  };
+  return credentials;
+}
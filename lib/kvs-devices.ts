@@ -0,0 +1,68 @@
+export type MediaInputKind = 'videoinput' | 'audioinput';
+
+export interface MediaDeviceOption {
+  deviceId: string;
+  kind: MediaInputKind;
+  label: string;
+}
+
+export interface MediaDeviceList {
+  cameras: MediaDeviceOption[];
+  microphones: MediaDeviceOption[];
+}
+
+// Constraints used for every camera the Producer opens
+export const DEFAULT_VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+  frameRate: { ideal: 30 },
+};
+
+// Labels stay empty until the page has been granted access to a device of that kind
+export async function listMediaDevices(): Promise<MediaDeviceList> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const toOptions = (kind: MediaInputKind, fallbackLabel: string) => devices
+    .filter(device => device.kind === kind && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      kind,
+      label: device.label || `${fallbackLabel} ${index + 1}`,
+    }));
+
+  return {
+    cameras: toOptions('videoinput', 'Camera'),
+    microphones: toOptions('audioinput', 'Microphone'),
+  };
+}
+
+// Calls the listener with the current devices and again whenever one is plugged in or removed.
+// Returns an unsubscribe function.
+export function watchMediaDevices(listener: (devices: MediaDeviceList) => void, onError?: (error: unknown) => void): () => void {
+  let active = true;
+  const update = () => {
+    listMediaDevices().then(devices => {
+      if (active) listener(devices);
+    }, error => onError?.(error));
+  };
+
+  update();
+  navigator.mediaDevices.addEventListener('devicechange', update);
+  return () => {
+    active = false;
+    navigator.mediaDevices.removeEventListener('devicechange', update);
+  };
+}
+
+// Opens one track from a specific device, or the browser's default when deviceId is undefined
+export async function openDeviceTrack(kind: MediaInputKind, deviceId?: string): Promise<MediaStreamTrack> {
+  const device = deviceId ? { deviceId: { exact: deviceId } } : {};
+  const stream = await navigator.mediaDevices.getUserMedia(kind === 'videoinput'
+    ? { video: { ...DEFAULT_VIDEO_CONSTRAINTS, ...device } }
+    : { audio: deviceId ? device : true });
+  return stream.getTracks()[0];
+}
+
+// The device to switch to when the active one disappears
+export function pickFallbackDevice(options: MediaDeviceOption[], lostDeviceId?: string): MediaDeviceOption | undefined {
+  return options.find(option => option.deviceId !== lostDeviceId);
+}
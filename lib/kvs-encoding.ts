@@ -0,0 +1,77 @@
+// Encoder caps per RTCRtpSender. A field set to undefined removes that cap.
+export interface VideoEncodingOptions {
+  // Bits per second
+  maxBitrate?: number;
+  maxFramerate?: number;
+  // 2 sends half the captured width and height
+  scaleResolutionDownBy?: number;
+  // What the encoder gives up first when bandwidth or CPU runs short
+  degradationPreference?: RTCDegradationPreference;
+}
+
+export interface AudioEncodingOptions {
+  maxBitrate?: number;
+}
+
+export interface EncodingOptions {
+  video?: VideoEncodingOptions;
+  audio?: AudioEncodingOptions;
+}
+
+export type QualityPreset = 'low' | 'medium' | 'high';
+
+export const QUALITY_PRESETS: Record<QualityPreset, VideoEncodingOptions> = {
+  low: { maxBitrate: 300000, maxFramerate: 15, scaleResolutionDownBy: 2, degradationPreference: 'maintain-framerate' },
+  medium: { maxBitrate: 1000000, maxFramerate: 30, scaleResolutionDownBy: 1, degradationPreference: 'balanced' },
+  high: { maxBitrate: 2500000, maxFramerate: 30, scaleResolutionDownBy: 1, degradationPreference: 'maintain-resolution' },
+};
+
+export function mergeEncodingOptions(current: EncodingOptions, update: EncodingOptions): EncodingOptions {
+  return {
+    video: update.video ? { ...current.video, ...update.video } : current.video,
+    audio: update.audio ? { ...current.audio, ...update.audio } : current.audio,
+  };
+}
+
+export function validateEncodingOptions(options: VideoEncodingOptions & AudioEncodingOptions): void {
+  if (options.maxBitrate !== undefined && !(options.maxBitrate > 0)) {
+    throw new Error(`maxBitrate must be positive, got ${options.maxBitrate}`);
+  }
+  if (options.maxFramerate !== undefined && !(options.maxFramerate > 0)) {
+    throw new Error(`maxFramerate must be positive, got ${options.maxFramerate}`);
+  }
+  if (options.scaleResolutionDownBy !== undefined && !(options.scaleResolutionDownBy >= 1)) {
+    throw new Error(`scaleResolutionDownBy must be at least 1, got ${options.scaleResolutionDownBy}`);
+  }
+}
+
+const ENCODING_FIELDS = ['maxBitrate', 'maxFramerate', 'scaleResolutionDownBy'] as const;
+
+// Updates the sender's parameters in place; takes effect without renegotiation
+export async function applyEncodingParameters(
+  sender: RTCRtpSender,
+  options: VideoEncodingOptions & AudioEncodingOptions
+): Promise<void> {
+  const parameters = sender.getParameters();
+  // Firefox reports no encodings until the first negotiation completes
+  if (!parameters.encodings || parameters.encodings.length === 0) {
+    parameters.encodings = [{}];
+  }
+
+  parameters.encodings.forEach(encoding => {
+    ENCODING_FIELDS.forEach(field => {
+      if (!(field in options)) return;
+      if (options[field] === undefined) {
+        delete encoding[field];
+      } else {
+        encoding[field] = options[field];
+      }
+    });
+  });
+
+  if ('degradationPreference' in options) {
+    parameters.degradationPreference = options.degradationPreference;
+  }
+
+  await sender.setParameters(parameters);
+}
@@ -0,0 +1,139 @@
+import { isClockSkewError } from './kvs-clock-skew';
+
+// Stable identifiers for UI and telemetry; messages may change, codes do not
+export type KVSErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'ACCESS_DENIED'
+  | 'CHANNEL_NOT_FOUND'
+  | 'ENDPOINT_RESOLUTION_FAILED'
+  | 'SIGNALING_TIMEOUT'
+  | 'MASTER_NOT_PRESENT'
+  | 'ICE_FAILED'
+  | 'MEDIA_PERMISSION'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+export class KVSError extends Error {
+  readonly code: KVSErrorCode;
+  // Whether the same call can succeed later without the user changing anything
+  readonly retryable: boolean;
+  // What the user can do about it, suitable for display
+  readonly remediation: string;
+  readonly cause?: unknown;
+
+  constructor(code: KVSErrorCode, message: string, retryable: boolean, remediation: string, cause?: unknown) {
+    super(message);
+    // Restore the prototype chain, which the ES5 target breaks for Error subclasses
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'KVSError';
+    this.code = code;
+    this.retryable = retryable;
+    this.remediation = remediation;
+    this.cause = cause;
+  }
+}
+
+export class InvalidCredentialsError extends KVSError {
+  constructor(message = 'AWS credentials are invalid or expired', cause?: unknown) {
+    super('INVALID_CREDENTIALS', message, false,
+      'Check the access key, secret key and session token, or that the credentials endpoint returns current credentials.', cause);
+  }
+}
+
+export class AccessDeniedError extends KVSError {
+  constructor(message = 'Not authorized to use this signaling channel', cause?: unknown) {
+    super('ACCESS_DENIED', message, false,
+      'Grant the IAM identity the kinesisvideo:* permissions for this channel (DescribeSignalingChannel, GetSignalingChannelEndpoint, GetIceServerConfig, ConnectAsMaster or ConnectAsViewer).', cause);
+  }
+}
+
+export class ChannelNotFoundError extends KVSError {
+  constructor(channelName: string, cause?: unknown) {
+    super('CHANNEL_NOT_FOUND', `Signaling channel ${channelName} does not exist`, false,
+      'Check the channel name and region, create the channel on the Channels page, or enable "Create channel if missing".', cause);
+  }
+}
+
+export class EndpointResolutionError extends KVSError {
+  constructor(message = 'Failed to resolve signaling endpoints', cause?: unknown) {
+    super('ENDPOINT_RESOLUTION_FAILED', message, true,
+      'Check your network connection and that the region is correct, then try again.', cause);
+  }
+}
+
+export class SignalingTimeoutError extends KVSError {
+  constructor(timeoutMs: number, cause?: unknown) {
+    super('SIGNALING_TIMEOUT', `Signaling connection did not open within ${timeoutMs / 1000}s`, true,
+      'The signaling WebSocket could not be reached. Check that your network or proxy allows WebSocket connections, then try again.', cause);
+  }
+}
+
+export class MasterNotPresentError extends KVSError {
+  constructor(timeoutMs: number) {
+    super('MASTER_NOT_PRESENT', `No answer from the master within ${timeoutMs / 1000}s`, true,
+      'Start the producer on this channel. The viewer keeps retrying while reconnection is enabled.');
+  }
+}
+
+export class IceFailedError extends KVSError {
+  constructor(message = 'Peer connection failed', cause?: unknown) {
+    super('ICE_FAILED', message, true,
+      'No network path to the peer was found. Networks that block UDP need TURN; check firewall rules, then try again.', cause);
+  }
+}
+
+export class MediaPermissionError extends KVSError {
+  constructor(message = 'Camera or microphone access was denied', cause?: unknown) {
+    super('MEDIA_PERMISSION', message, false,
+      'Allow camera and microphone access in your browser settings, check that a device is connected and not in use by another app, then reload.', cause);
+  }
+}
+
+// Thrown by connect() when disconnect() or its AbortSignal cancels it; not reported through 'error'
+export class ConnectionAbortedError extends KVSError {
+  constructor() {
+    super('ABORTED', 'Connection was cancelled', false, 'The connection was closed before it was established.');
+  }
+}
+
+export function isChannelNotFoundError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ResourceNotFoundException';
+}
+
+const INVALID_CREDENTIALS_ERROR_NAMES = [
+  'UnrecognizedClientException',
+  'InvalidSignatureException',
+  'SignatureDoesNotMatch',
+  'ExpiredTokenException',
+  'InvalidClientTokenId',
+  'CredentialsProviderError',
+];
+
+const ACCESS_DENIED_ERROR_NAMES = ['AccessDeniedException', 'AccessDenied', 'NotAuthorizedException'];
+
+const MEDIA_PERMISSION_ERROR_NAMES = ['NotAllowedError', 'PermissionDeniedError', 'NotFoundError', 'NotReadableError', 'OverconstrainedError'];
+
+// Maps SDK, DOM and plain errors onto the taxonomy. `fallback` classifies anything unrecognised,
+// so each call site can say what failing at that stage means.
+export function toKVSError(error: unknown, fallback?: (error: unknown) => KVSError): KVSError {
+  if (error instanceof KVSError) {
+    return error;
+  }
+
+  // getUserMedia rejects with DOMExceptions, which are Errors in every supported browser
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  // Skewed signatures are corrected and retried upstream; one that still fails is not a credentials problem
+  if (INVALID_CREDENTIALS_ERROR_NAMES.includes(name) && !isClockSkewError(error)) {
+    return new InvalidCredentialsError(message, error);
+  }
+  if (ACCESS_DENIED_ERROR_NAMES.includes(name)) {
+    return new AccessDeniedError(message, error);
+  }
+  if (MEDIA_PERMISSION_ERROR_NAMES.includes(name)) {
+    return new MediaPermissionError(message, error);
+  }
+
+  return fallback ? fallback(error) : new KVSError('UNKNOWN', message, true, 'Try again. If the problem persists, check the browser console for details.', error);
+}
@@ -0,0 +1,86 @@
+import { ClockSkewMeasurement } from './kvs-clock-skew';
+import { KVSError } from './kvs-errors';
+import { ConnectionState } from './kvs-connection-state';
+import { BitrateDecision } from './kvs-adaptive-bitrate';
+import { PeerStatsSnapshot } from './kvs-stats';
+
+export interface NegotiationEvent {
+  type: 'offer' | 'answer' | 'iceRestart';
+  direction: 'sent' | 'received';
+  remoteClientId: string;
+}
+
+export type DataChannelMessageData = string | ArrayBuffer;
+
+export interface KVSClientEvents {
+  stateChange: (state: ConnectionState, previous: ConnectionState) => void;
+  remoteStream: (stream: MediaStream, remoteClientId: string) => void;
+  remoteTrackAdded: (track: MediaStreamTrack, stream: MediaStream, remoteClientId: string) => void;
+  remoteTrackRemoved: (track: MediaStreamTrack, stream: MediaStream, remoteClientId: string) => void;
+  signalingOpen: () => void;
+  signalingClose: () => void;
+  connectionStateChange: (state: RTCPeerConnectionState, remoteClientId: string) => void;
+  iceConnectionStateChange: (state: RTCIceConnectionState, remoteClientId: string) => void;
+  viewerConnected: (remoteClientId: string) => void;
+  viewerDisconnected: (remoteClientId: string) => void;
+  negotiation: (event: NegotiationEvent) => void;
+  dataChannelOpen: (label: string, remoteClientId: string) => void;
+  dataChannelClose: (label: string, remoteClientId: string) => void;
+  message: (data: DataChannelMessageData, remoteClientId: string, label: string) => void;
+  stats: (report: RTCStatsReport, remoteClientId: string) => void;
+  statsSnapshot: (snapshot: PeerStatsSnapshot) => void;
+  bitrateAdaptation: (decision: BitrateDecision) => void;
+  reconnecting: (attempt: number, delayMs: number) => void;
+  reconnected: () => void;
+  clockSkew: (measurement: ClockSkewMeasurement) => void;
+  error: (error: KVSError) => void;
+}
+
+type EventMap<Events> = { [E in keyof Events]: (...args: any[]) => void };
+
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+  private listeners: { [E in keyof Events]?: Events[E][] } = {};
+
+  on<E extends keyof Events>(event: E, listener: Events[E]): this {
+    this.listeners[event] = [...this.getListeners(event), listener];
+    return this;
+  }
+
+  off<E extends keyof Events>(event: E, listener: Events[E]): this {
+    this.listeners[event] = this.getListeners(event).filter(existing => existing !== listener);
+    return this;
+  }
+
+  once<E extends keyof Events>(event: E, listener: Events[E]): this {
+    const wrapper = ((...args: Parameters<Events[E]>) => {
+      this.off(event, wrapper);
+      listener(...args);
+    }) as Events[E];
+    return this.on(event, wrapper);
+  }
+
+  removeAllListeners(event?: keyof Events): this {
+    if (event) {
+      delete this.listeners[event];
+    } else {
+      this.listeners = {};
+    }
+    return this;
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>): void {
+    // on/off replace the array, so listeners changed while emitting only apply to the next emit
+    this.getListeners(event).forEach(listener => {
+      // One failing listener must not keep the others from being notified
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Error in '${String(event)}' listener:`, error);
+      }
+    });
+  }
+
+  private getListeners<E extends keyof Events>(event: E): Events[E][] {
+    return (this.listeners[event] || []) as Events[E][];
+  }
+}
@@ -0,0 +1,134 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogFields = Record<string, unknown>;
+
+// Shaped like console, so console itself (or pino, winston, ...) can be passed as a logger
+export interface KVSLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged
+const SENSITIVE_KEY_PATTERN = /secret|password|credential|token|signature|authorization|accesskey/i;
+
+// Signed URLs carry the credential scope, session token and signature as query parameters
+const SIGNED_QUERY_PARAM_PATTERN = /(X-Amz-(?:Credential|Security-Token|Signature)=)[^&\s"]+/gi;
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.replace(SIGNED_QUERY_PARAM_PATTERN, `$1${REDACTED}`);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactValue(value.message, depth) };
+  }
+  if (Array.isArray(value)) {
+    return depth > 0 ? value.map(item => redactValue(item, depth - 1)) : '[Array]';
+  }
+  if (value && typeof value === 'object') {
+    return depth > 0 ? redactFields(value as LogFields, depth - 1) : '[Object]';
+  }
+  return value;
+}
+
+export function redactFields(fields: LogFields, depth = 4): LogFields {
+  const redacted: LogFields = {};
+  Object.keys(fields).forEach(key => {
+    redacted[key] = SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redactValue(fields[key], depth);
+  });
+  return redacted;
+}
+
+export function redactMessage(message: string): string {
+  return message.replace(SIGNED_QUERY_PARAM_PATTERN, `$1${REDACTED}`);
+}
+
+export const consoleLogger: KVSLogger = console;
+
+// Adds the session context and a timestamp to every entry, drops entries below minLevel
+// and redacts credentials before anything reaches the sink
+export function createContextLogger(sink: KVSLogger, context: LogFields, minLevel: LogLevel = 'info'): KVSLogger {
+  const threshold = LOG_LEVELS.indexOf(minLevel);
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) return;
+    sink[level](redactMessage(message), redactFields({ timestamp: new Date().toISOString(), ...context, ...fields }));
+  };
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+// Keeps the most recent entries of a session for the in-app log console, forwarding each one on
+export class SessionLog implements KVSLogger {
+  private entries: LogEntry[] = [];
+  private listeners = new Set<(entries: LogEntry[]) => void>();
+  private forward?: KVSLogger;
+  private maxEntries: number;
+
+  constructor(forward?: KVSLogger, maxEntries = 2000) {
+    this.forward = forward;
+    this.maxEntries = maxEntries;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.append('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.append('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.append('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.append('error', message, fields);
+  }
+
+  getEntries(): LogEntry[] {
+    return this.entries;
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: (entries: LogEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+
+  toJSON(): string {
+    return JSON.stringify(this.entries, null, 2);
+  }
+
+  private append(level: LogLevel, message: string, fields: LogFields = {}): void {
+    const { timestamp, ...rest } = fields;
+    const entry: LogEntry = {
+      timestamp: typeof timestamp === 'string' ? timestamp : new Date().toISOString(),
+      level,
+      message,
+      fields: rest,
+    };
+
+    // Replace rather than mutate so React state holding the previous array still sees a change
+    this.entries = [...this.entries.slice(-(this.maxEntries - 1)), entry];
+    this.forward?.[level](message, fields);
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+}
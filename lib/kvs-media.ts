@@ -0,0 +1,70 @@
+import { MediaKind } from './kvs-stats';
+
+// What a viewer asks for per kind: 'sendrecv' also reserves a sender so talkback starts without
+// a renegotiation, 'none' leaves the kind out of the session
+export type MediaDirection = 'recvonly' | 'sendrecv' | 'none';
+
+export type MediaOptions = Record<MediaKind, MediaDirection>;
+
+export const MEDIA_KINDS: MediaKind[] = ['video', 'audio'];
+
+export const DEFAULT_MEDIA_OPTIONS: MediaOptions = { audio: 'recvonly', video: 'recvonly' };
+
+export type MediaPreset = 'receive' | 'twoWay' | 'audioOnly' | 'videoOnly';
+
+export const MEDIA_PRESETS: Record<MediaPreset, { label: string; options: MediaOptions }> = {
+  receive: { label: 'Audio and video', options: DEFAULT_MEDIA_OPTIONS },
+  twoWay: { label: 'Two-way', options: { audio: 'sendrecv', video: 'sendrecv' } },
+  audioOnly: { label: 'Audio only', options: { audio: 'recvonly', video: 'none' } },
+  videoOnly: { label: 'Video only', options: { audio: 'none', video: 'recvonly' } },
+};
+
+export function resolveMediaOptions(options?: Partial<MediaOptions>): MediaOptions {
+  return { ...DEFAULT_MEDIA_OPTIONS, ...options };
+}
+
+// A local track is always sent, so it upgrades the direction rather than being dropped
+export function getTransceiverDirection(direction: MediaDirection, hasTrack: boolean): RTCRtpTransceiverDirection | undefined {
+  if (direction === 'none') return hasTrack ? 'sendonly' : undefined;
+  return hasTrack ? 'sendrecv' : direction;
+}
+
+// Declares the viewer's media up front instead of the legacy offerToReceive options.
+// Has to run before createOffer; returns the kinds left out of the session.
+export function addViewerTransceivers(
+  peerConnection: RTCPeerConnection,
+  options: MediaOptions,
+  localStream?: MediaStream
+): MediaKind[] {
+  const skipped: MediaKind[] = [];
+  MEDIA_KINDS.forEach(kind => {
+    const tracks = localStream?.getTracks().filter(track => track.kind === kind) || [];
+    const direction = getTransceiverDirection(options[kind], tracks.length > 0);
+    if (!direction) {
+      skipped.push(kind);
+      return;
+    }
+    if (tracks.length === 0) {
+      peerConnection.addTransceiver(kind, { direction });
+      return;
+    }
+    tracks.forEach(track => {
+      peerConnection.addTransceiver(track, { direction, streams: [localStream!] });
+    });
+  });
+  return skipped;
+}
+
+// Kinds the remote side offers to receive; rejected (port 0), sendonly and inactive sections do not count
+export function getReceivingKinds(sdp?: string): MediaKind[] {
+  const kinds = new Set<MediaKind>();
+  (sdp || '').split(/\r?\nm=/).slice(1).forEach(section => {
+    const [, kind, port] = section.match(/^(audio|video) (\d+)/) || [];
+    if (!kind || port === '0') return;
+    const direction = section.match(/a=(sendrecv|recvonly|sendonly|inactive)/)?.[1] || 'sendrecv';
+    if (direction === 'sendrecv' || direction === 'recvonly') {
+      kinds.add(kind as MediaKind);
+    }
+  });
+  return MEDIA_KINDS.filter(kind => kinds.has(kind));
+}
@@ -0,0 +1,112 @@
+import { KinesisVideoClient } from '@aws-sdk/client-kinesis-video';
+import { QueryParams, RequestSigner, Role, SigV4RequestSigner } from 'amazon-kinesis-video-streams-webrtc';
+import { IceServer, resolveSignalingChannel } from './kvs-signaling-channel';
+import { AccessDeniedError, ChannelNotFoundError, EndpointResolutionError } from './kvs-errors';
+
+// SigV4RequestSigner signs URLs with X-Amz-Expires=299
+const SIGNED_URL_TTL_MS = 299 * 1000;
+// Fetch a fresh URL rather than open a socket with one that is about to expire
+const SIGNED_URL_EXPIRY_MARGIN_MS = 30 * 1000;
+
+export interface PresignedSignalingRequest {
+  channelName: string;
+  role: 'MASTER' | 'VIEWER';
+  clientId?: string;
+}
+
+export interface PresignedSignalingPayload {
+  channelARN: string;
+  channelEndpoint: string;
+  role: 'MASTER' | 'VIEWER';
+  clientId?: string;
+  signedUrl: string;
+  iceServers: IceServer[];
+  // Epoch ms at which the TURN credentials in iceServers stop working
+  iceServersExpireAt: number;
+  // ISO timestamp after which signedUrl is rejected by KVS
+  expiresAt: string;
+}
+
+// Server side: resolves the channel and signs the WebSocket URL with the server's credentials
+export async function createPresignedSignalingPayload(
+  kinesisVideoClient: KinesisVideoClient,
+  request: PresignedSignalingRequest
+): Promise<PresignedSignalingPayload> {
+  const role = request.role === 'MASTER' ? Role.MASTER : Role.VIEWER;
+  const { channelARN, endpointsByProtocol, iceServers, iceServersExpireAt } = await resolveSignalingChannel(
+    kinesisVideoClient,
+    request.channelName,
+    role
+  );
+
+  const signer = new SigV4RequestSigner(
+    await kinesisVideoClient.config.region(),
+    await kinesisVideoClient.config.credentials()
+  );
+
+  const queryParams: QueryParams = { 'X-Amz-ChannelARN': channelARN };
+  if (role === Role.VIEWER) {
+    queryParams['X-Amz-ClientId'] = request.clientId!;
+  }
+
+  const signedAt = Date.now();
+  const signedUrl = await signer.getSignedURL(endpointsByProtocol.WSS, queryParams, new Date(signedAt));
+
+  return {
+    channelARN,
+    channelEndpoint: endpointsByProtocol.WSS,
+    role: request.role,
+    clientId: request.clientId,
+    signedUrl,
+    iceServers,
+    iceServersExpireAt,
+    expiresAt: new Date(signedAt + SIGNED_URL_TTL_MS).toISOString(),
+  };
+}
+
+// Client side: asks the vending route for a payload
+export async function fetchPresignedSignalingPayload(
+  url: string,
+  request: PresignedSignalingRequest,
+  token?: string
+): Promise<PresignedSignalingPayload> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const message = body.error || `Signaling URL endpoint responded with ${response.status}`;
+    switch (response.status) {
+      case 403: throw new AccessDeniedError(message);
+      case 404: throw new ChannelNotFoundError(request.channelName);
+      default: throw new EndpointResolutionError(message);
+    }
+  }
+
+  return response.json();
+}
+
+// Hands the vended URL to SignalingClient in place of signing locally, fetching a new one once it is stale
+export class PresignedRequestSigner implements RequestSigner {
+  private payload?: PresignedSignalingPayload;
+  private fetchPayload: () => Promise<PresignedSignalingPayload>;
+
+  constructor(fetchPayload: () => Promise<PresignedSignalingPayload>, payload?: PresignedSignalingPayload) {
+    this.fetchPayload = fetchPayload;
+    this.payload = payload;
+  }
+
+  async getSignedURL(): Promise<string> {
+    if (!this.payload || new Date(this.payload.expiresAt).getTime() - Date.now() <= SIGNED_URL_EXPIRY_MARGIN_MS) {
+      this.payload = await this.fetchPayload();
+    }
+    return this.payload.signedUrl;
+  }
+}
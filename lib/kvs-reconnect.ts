@@ -0,0 +1,42 @@
+export interface ReconnectOptions {
+  enabled: boolean;
+  // Use Infinity to keep retrying forever (e.g. unattended kiosk cameras)
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of the delay randomized in both directions, so many clients don't retry in lockstep
+  jitter: number;
+  // How long a viewer tolerates a 'disconnected' ICE connection before restarting ICE
+  disconnectedGraceMs: number;
+  // Recover ICE failures with an ICE restart on the existing session before renegotiating from scratch
+  iceRestart: boolean;
+  // How long an ICE restart may take before the session is torn down and renegotiated
+  iceRestartTimeoutMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  enabled: true,
+  maxAttempts: 10,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+  disconnectedGraceMs: 5000,
+  iceRestart: true,
+  iceRestartTimeoutMs: 10000,
+};
+
+export function resolveReconnectOptions(options?: Partial<ReconnectOptions>): ReconnectOptions {
+  return { ...DEFAULT_RECONNECT_OPTIONS, ...options };
+}
+
+// Exponential backoff for the given 1-based attempt number
+export function getReconnectDelay(attempt: number, options: ReconnectOptions): number {
+  const baseDelay = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.multiplier, Math.max(0, attempt - 1))
+  );
+  const jitter = baseDelay * options.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(baseDelay + jitter));
+}
@@ -0,0 +1,203 @@
+import { KinesisVideoClient, DescribeSignalingChannelCommand, GetSignalingChannelEndpointCommand } from '@aws-sdk/client-kinesis-video';
+import { KinesisVideoSignalingClient, GetIceServerConfigCommand } from '@aws-sdk/client-kinesis-video-signaling';
+import { Role } from 'amazon-kinesis-video-streams-webrtc';
+import { KVSLogger, consoleLogger } from './kvs-logger';
+
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface SignalingEndpoints {
+  channelARN: string;
+  endpointsByProtocol: Record<string, string>;
+}
+
+export interface IceServerConfig {
+  iceServers: IceServer[];
+  // Epoch ms at which the TURN credentials stop working
+  expiresAt: number;
+}
+
+export interface SignalingChannelInfo extends SignalingEndpoints {
+  iceServers: IceServer[];
+  iceServersExpireAt: number;
+}
+
+// Refresh TURN credentials this long before their TTL runs out
+export const ICE_SERVER_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Used when GetIceServerConfig returns no TTL; KVS currently issues 300s credentials
+const DEFAULT_ICE_SERVER_TTL_SECONDS = 300;
+
+interface CacheEntry<T> {
+  value?: T;
+  // Shared by concurrent callers so one lookup serves all of them
+  pending?: Promise<T>;
+}
+
+// Module-level so reconnects and new client instances for the same channel reuse the lookups.
+// Keys include the caller's access key, so clients for other accounts or principals never share them.
+const endpointCache = new Map<string, CacheEntry<SignalingEndpoints>>();
+const iceServerCache = new Map<string, CacheEntry<IceServerConfig>>();
+
+// The resolved config holds a provider, but a client built with static credentials may hold them directly
+async function getCredentialIdentity(kinesisVideoClient: KinesisVideoClient): Promise<string> {
+  const provider = kinesisVideoClient.config.credentials as unknown;
+  const credentials = typeof provider === 'function' ? await provider() : provider;
+  return (credentials as { accessKeyId?: string } | undefined)?.accessKeyId || 'default';
+}
+
+async function getCacheKey(kinesisVideoClient: KinesisVideoClient, channelName: string, role: Role): Promise<string> {
+  const identity = await getCredentialIdentity(kinesisVideoClient);
+  return `${await kinesisVideoClient.config.region()}/${channelName}/${role}/${identity}`;
+}
+
+// Drops cached endpoints and ICE servers for both roles and every identity, e.g. after the channel is deleted
+export function clearSignalingChannelCache(region: string, channelName: string): void {
+  const prefixes = [Role.MASTER, Role.VIEWER].map(role => `${region}/${channelName}/${role}/`);
+  [endpointCache, iceServerCache].forEach((cache: Map<string, unknown>) => {
+    Array.from(cache.keys())
+      .filter(key => prefixes.some(prefix => key.startsWith(prefix)))
+      .forEach(key => cache.delete(key));
+  });
+}
+
+function getCached<T>(
+  cache: Map<string, CacheEntry<T>>,
+  key: string,
+  isFresh: (value: T) => boolean,
+  load: () => Promise<T>
+): Promise<T> {
+  const entry = cache.get(key) || {};
+  cache.set(key, entry);
+
+  if (entry.value && isFresh(entry.value)) {
+    return Promise.resolve(entry.value);
+  }
+
+  if (!entry.pending) {
+    entry.pending = load()
+      .then(value => {
+        entry.value = value;
+        return value;
+      })
+      .finally(() => {
+        entry.pending = undefined;
+      });
+  }
+  return entry.pending;
+}
+
+export async function resolveSignalingEndpoints(
+  kinesisVideoClient: KinesisVideoClient,
+  channelName: string,
+  role: Role,
+  forceRefresh = false,
+  logger: KVSLogger = consoleLogger
+): Promise<SignalingEndpoints> {
+  const key = await getCacheKey(kinesisVideoClient, channelName, role);
+  return getCached(endpointCache, key, () => !forceRefresh, async () => {
+    // Get signaling channel ARN
+    const describeSignalingChannelCommand = new DescribeSignalingChannelCommand({
+      ChannelName: channelName,
+    });
+    const describeSignalingChannelResponse = await kinesisVideoClient.send(describeSignalingChannelCommand);
+
+    const channelARN = describeSignalingChannelResponse.ChannelInfo?.ChannelARN;
+    if (!channelARN) {
+      throw new Error('Failed to get channel ARN');
+    }
+
+    // Get signaling channel endpoints
+    const getSignalingChannelEndpointCommand = new GetSignalingChannelEndpointCommand({
+      ChannelARN: channelARN,
+      SingleMasterChannelEndpointConfiguration: {
+        Protocols: ['WSS', 'HTTPS'],
+        Role: role,
+      },
+    });
+    const getSignalingChannelEndpointResponse = await kinesisVideoClient.send(getSignalingChannelEndpointCommand);
+
+    const endpointsByProtocol = getSignalingChannelEndpointResponse.ResourceEndpointList?.reduce(
+      (endpoints: any, endpoint: any) => {
+        endpoints[endpoint.Protocol] = endpoint.ResourceEndpoint;
+        return endpoints;
+      },
+      {}
+    );
+
+    if (!endpointsByProtocol) {
+      throw new Error('Failed to get signaling endpoints');
+    }
+
+    logger.info('Resolved signaling endpoints', { channelARN, endpoint: endpointsByProtocol.WSS });
+
+    return { channelARN, endpointsByProtocol };
+  });
+}
+
+// Cached until shortly before the TURN credentials expire
+export async function resolveIceServers(
+  kinesisVideoClient: KinesisVideoClient,
+  channelName: string,
+  role: Role,
+  endpoints: SignalingEndpoints,
+  forceRefresh = false,
+  logger: KVSLogger = consoleLogger
+): Promise<IceServerConfig> {
+  const key = await getCacheKey(kinesisVideoClient, channelName, role);
+  const isFresh = (config: IceServerConfig) =>
+    !forceRefresh && config.expiresAt - Date.now() > ICE_SERVER_REFRESH_MARGIN_MS;
+
+  return getCached(iceServerCache, key, isFresh, async () => {
+    // GetIceServerConfig is served by the channel's own HTTPS endpoint, not the regional control plane.
+    // It signs with the control-plane client's clock offset, which a clock skew retry may just have corrected.
+    const kinesisVideoSignalingClient = new KinesisVideoSignalingClient({
+      region: await kinesisVideoClient.config.region(),
+      credentials: kinesisVideoClient.config.credentials,
+      endpoint: endpoints.endpointsByProtocol.HTTPS,
+      systemClockOffset: kinesisVideoClient.config.systemClockOffset,
+    });
+
+    // Get ICE server configuration
+    const getIceServerConfigCommand = new GetIceServerConfigCommand({
+      ChannelARN: endpoints.channelARN,
+    });
+    const getIceServerConfigResponse = await kinesisVideoSignalingClient.send(getIceServerConfigCommand);
+
+    const iceServers: IceServer[] = [];
+    let ttlSeconds = Infinity;
+    if (getIceServerConfigResponse.IceServerList) {
+      getIceServerConfigResponse.IceServerList.forEach((iceServer: any) => {
+        iceServers.push({
+          urls: iceServer.Uris,
+          username: iceServer.Username,
+          credential: iceServer.Password,
+        });
+        if (iceServer.Ttl) {
+          ttlSeconds = Math.min(ttlSeconds, iceServer.Ttl);
+        }
+      });
+    }
+    if (!isFinite(ttlSeconds)) {
+      ttlSeconds = DEFAULT_ICE_SERVER_TTL_SECONDS;
+    }
+
+    logger.info('Resolved ICE servers', { count: iceServers.length, ttlSeconds });
+    return { iceServers, expiresAt: Date.now() + ttlSeconds * 1000 };
+  });
+}
+
+// One-shot resolution of everything a peer needs, used by the server-side URL vending route
+export async function resolveSignalingChannel(
+  kinesisVideoClient: KinesisVideoClient,
+  channelName: string,
+  role: Role,
+  forceRefresh = false
+): Promise<SignalingChannelInfo> {
+  const endpoints = await resolveSignalingEndpoints(kinesisVideoClient, channelName, role, forceRefresh);
+  const { iceServers, expiresAt } = await resolveIceServers(kinesisVideoClient, channelName, role, endpoints, forceRefresh);
+  return { ...endpoints, iceServers, iceServersExpireAt: expiresAt };
+}
@@ -0,0 +1,156 @@
+import { TypedEventEmitter } from './kvs-events';
+
+export type SignalingRole = 'MASTER' | 'VIEWER';
+
+// Payloads arrive as parsed JSON, the same as SignalingClient emits them. The sender is only set
+// on messages received by the master.
+export interface SignalingTransportEvents {
+  open: () => void;
+  close: () => void;
+  error: (error: unknown) => void;
+  sdpOffer: (offer: RTCSessionDescriptionInit, senderClientId?: string) => void;
+  sdpAnswer: (answer: RTCSessionDescriptionInit, senderClientId?: string) => void;
+  iceCandidate: (candidate: RTCIceCandidateInit, senderClientId?: string) => void;
+}
+
+// What KVSWebRTCClient needs from signaling. SignalingClient from amazon-kinesis-video-streams-webrtc
+// satisfies it as is; the master addresses viewers with recipientClientId, a viewer always talks to the master.
+export interface SignalingTransport {
+  open(): void;
+  close(): void;
+  sendSdpOffer(offer: RTCSessionDescriptionInit, recipientClientId?: string): void;
+  sendSdpAnswer(answer: RTCSessionDescriptionInit, recipientClientId?: string): void;
+  sendIceCandidate(candidate: RTCIceCandidateInit, recipientClientId?: string): void;
+  on<E extends keyof SignalingTransportEvents>(event: E, listener: SignalingTransportEvents[E]): this;
+  off<E extends keyof SignalingTransportEvents>(event: E, listener: SignalingTransportEvents[E]): this;
+  removeAllListeners(event?: keyof SignalingTransportEvents): this;
+}
+
+export interface SignalingTransportConfig {
+  channelName: string;
+  channelARN: string;
+  // WSS endpoint of the channel, or the local signaling server URL
+  channelEndpoint: string;
+  role: SignalingRole;
+  // Viewer only
+  clientId?: string;
+}
+
+export type SignalingTransportFactory = (config: SignalingTransportConfig) => SignalingTransport;
+
+// Wire format shared with KVS: payloads are base64-encoded JSON, actions and message types use the same names
+export type SignalingMessageType = 'SDP_OFFER' | 'SDP_ANSWER' | 'ICE_CANDIDATE';
+
+export interface OutgoingSignalingMessage {
+  action: SignalingMessageType;
+  messagePayload: string;
+  recipientClientId?: string;
+}
+
+export interface IncomingSignalingMessage {
+  messageType: SignalingMessageType;
+  messagePayload: string;
+  senderClientId?: string;
+}
+
+export const DEFAULT_LOCAL_SIGNALING_URL = 'ws://localhost:8787';
+
+// Speaks the KVS message shapes to the local signaling server (npm run signaling:local), so the
+// client can be developed and tested without an AWS account
+export class LocalSignalingTransport extends TypedEventEmitter<SignalingTransportEvents> implements SignalingTransport {
+  private config: SignalingTransportConfig;
+  private createWebSocket: (url: string) => WebSocket;
+  private webSocket?: WebSocket;
+
+  // createWebSocket lets Node, which has no global WebSocket before v22, supply one
+  constructor(config: SignalingTransportConfig, createWebSocket: (url: string) => WebSocket = url => new WebSocket(url)) {
+    super();
+    this.config = config;
+    this.createWebSocket = createWebSocket;
+  }
+
+  open(): void {
+    if (this.webSocket) {
+      throw new Error('Signaling transport is already open');
+    }
+
+    const url = new URL(this.config.channelEndpoint);
+    url.searchParams.set('channel', this.config.channelName);
+    url.searchParams.set('role', this.config.role);
+    if (this.config.clientId) {
+      url.searchParams.set('clientId', this.config.clientId);
+    }
+
+    const webSocket = this.createWebSocket(url.toString());
+    this.webSocket = webSocket;
+    webSocket.onopen = () => this.emit('open');
+    webSocket.onmessage = event => this.handleMessage(event.data);
+    webSocket.onerror = () => this.emit('error', new Error(`Local signaling connection to ${this.config.channelEndpoint} failed`));
+    webSocket.onclose = () => {
+      if (this.webSocket !== webSocket) return;
+      this.webSocket = undefined;
+      this.emit('close');
+    };
+  }
+
+  close(): void {
+    const webSocket = this.webSocket;
+    if (!webSocket) return;
+
+    this.webSocket = undefined;
+    webSocket.close();
+    this.emit('close');
+  }
+
+  sendSdpOffer(offer: RTCSessionDescriptionInit, recipientClientId?: string): void {
+    this.send('SDP_OFFER', offer, recipientClientId);
+  }
+
+  sendSdpAnswer(answer: RTCSessionDescriptionInit, recipientClientId?: string): void {
+    this.send('SDP_ANSWER', answer, recipientClientId);
+  }
+
+  sendIceCandidate(candidate: RTCIceCandidateInit, recipientClientId?: string): void {
+    this.send('ICE_CANDIDATE', candidate, recipientClientId);
+  }
+
+  private send(action: SignalingMessageType, payload: object, recipientClientId?: string): void {
+    if (!this.webSocket || this.webSocket.readyState !== this.webSocket.OPEN) {
+      throw new Error('Signaling transport is not open');
+    }
+    if (this.config.role === 'VIEWER' && recipientClientId) {
+      throw new Error('A viewer cannot address a recipient, its messages always go to the master');
+    }
+
+    const message: OutgoingSignalingMessage = {
+      action,
+      messagePayload: btoa(JSON.stringify(payload)),
+      recipientClientId,
+    };
+    this.webSocket.send(JSON.stringify(message));
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: IncomingSignalingMessage;
+    let payload: any;
+    try {
+      message = JSON.parse(String(data));
+      payload = JSON.parse(atob(message.messagePayload));
+    } catch (error) {
+      this.emit('error', error);
+      return;
+    }
+
+    switch (message.messageType) {
+      case 'SDP_OFFER':
+        this.emit('sdpOffer', payload, message.senderClientId);
+        break;
+      case 'SDP_ANSWER':
+        this.emit('sdpAnswer', payload, message.senderClientId);
+        break;
+      case 'ICE_CANDIDATE':
+        this.emit('iceCandidate', payload, message.senderClientId);
+        break;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { PeerStatsSnapshot, TrackDirection } from './kvs-stats';
+
+export type StatsMetric = 'bitrate' | 'fps' | 'packetLoss' | 'jitter' | 'rtt';
+
+export const STATS_METRICS: Record<StatsMetric, { label: string; unit: string }> = {
+  bitrate: { label: 'Bitrate', unit: 'kbps' },
+  fps: { label: 'Framerate', unit: 'fps' },
+  packetLoss: { label: 'Packet loss', unit: '%' },
+  jitter: { label: 'Jitter', unit: 'ms' },
+  rtt: { label: 'Round trip', unit: 'ms' },
+};
+
+export type StatsAnnotationType = 'reconnect' | 'iceRestart' | 'qualityChange';
+
+export interface StatsAnnotation {
+  time: number;
+  type: StatsAnnotationType;
+  label: string;
+  // Undefined for events that affect every peer
+  remoteClientId?: string;
+}
+
+export type MetricValues = Partial<Record<StatsMetric, number>>;
+
+export interface StatsPoint {
+  time: number;
+  values: MetricValues;
+}
+
+// One row per sample, with a column per series, the shape recharts plots from
+export interface StatsRow {
+  time: number;
+  [seriesId: string]: number | undefined;
+}
+
+export interface StatsHistoryState {
+  series: Map<string, StatsPoint[]>;
+  annotations: StatsAnnotation[];
+}
+
+// Master charts what it sends, viewer what it receives
+export function readMetricValues(snapshot: PeerStatsSnapshot, direction: TrackDirection): MetricValues {
+  const video = snapshot.tracks.find(track => track.direction === direction && track.kind === 'video');
+  const bitrate = direction === 'inbound' ? snapshot.inboundBitrate : snapshot.outboundBitrate;
+  return {
+    bitrate: bitrate === undefined ? undefined : bitrate / 1000,
+    fps: video?.framesPerSecond,
+    packetLoss: video?.packetLoss,
+    jitter: video?.jitterMs,
+    rtt: snapshot.rttMs,
+  };
+}
+
+function getResolution(snapshot: PeerStatsSnapshot, direction: TrackDirection): string | undefined {
+  const video = snapshot.tracks.find(track => track.direction === direction && track.kind === 'video');
+  return video?.frameWidth && video.frameHeight ? `${video.frameWidth}x${video.frameHeight}` : undefined;
+}
+
+// Rolling window of per-peer metrics and connection events for the stats dashboard
+export class StatsHistory {
+  private series = new Map<string, StatsPoint[]>();
+  private annotations: StatsAnnotation[] = [];
+  private resolutions = new Map<string, string>();
+  private listeners = new Set<(state: StatsHistoryState) => void>();
+  private direction: TrackDirection;
+  private windowMs: number;
+
+  constructor(direction: TrackDirection, windowMs = 5 * 60 * 1000) {
+    this.direction = direction;
+    this.windowMs = windowMs;
+  }
+
+  addSnapshot(snapshot: PeerStatsSnapshot, time = Date.now()): void {
+    const { remoteClientId } = snapshot;
+    const points = this.series.get(remoteClientId) || [];
+    // Replace rather than mutate so React state holding the previous map still sees a change
+    this.series = new Map(this.series).set(remoteClientId, [
+      ...points.filter(point => point.time >= time - this.windowMs),
+      { time, values: readMetricValues(snapshot, this.direction) },
+    ]);
+
+    // Resolution changes are how the encoder's quality decisions show up on either side
+    const resolution = getResolution(snapshot, this.direction);
+    const previousResolution = this.resolutions.get(remoteClientId);
+    if (resolution && previousResolution && resolution !== previousResolution) {
+      this.annotate({ time, type: 'qualityChange', label: `${previousResolution} → ${resolution}`, remoteClientId }, false);
+    }
+    if (resolution) {
+      this.resolutions.set(remoteClientId, resolution);
+    }
+
+    this.prune(time);
+    this.notify();
+  }
+
+  addAnnotation(annotation: Omit<StatsAnnotation, 'time'> & { time?: number }): void {
+    this.annotate({ ...annotation, time: annotation.time ?? Date.now() }, true);
+  }
+
+  getState(): StatsHistoryState {
+    return { series: this.series, annotations: this.annotations };
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: (state: StatsHistoryState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.series = new Map();
+    this.annotations = [];
+    this.resolutions.clear();
+    this.notify();
+  }
+
+  private annotate(annotation: StatsAnnotation, notify: boolean): void {
+    this.annotations = [...this.annotations, annotation];
+    if (notify) {
+      this.prune(annotation.time);
+      this.notify();
+    }
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    if (this.annotations.length > 0 && this.annotations[0].time < cutoff) {
+      this.annotations = this.annotations.filter(annotation => annotation.time >= cutoff);
+    }
+    // Peers that left keep their line until its last point ages out
+    const entries = Array.from(this.series.entries());
+    const current = entries.filter(([, points]) => points.length > 0 && points[points.length - 1].time >= cutoff);
+    if (current.length < entries.length) {
+      this.series = new Map(current);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// One row per point for one metric, limited to [from, to] and sorted by time. Peers sample at their own
+// times, so each row holds a single series' value and charts bridge the gaps with connectNulls.
+export function toStatsRows(state: StatsHistoryState, metric: StatsMetric, from: number, to: number): StatsRow[] {
+  const rows: StatsRow[] = [];
+  state.series.forEach((points, seriesId) => {
+    points.forEach(point => {
+      if (point.time < from || point.time > to) return;
+      rows.push({ time: point.time, [seriesId]: point.values[metric] });
+    });
+  });
+  return rows.sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,334 @@
+import { TypedEventEmitter } from './kvs-events';
+import { formatCodec } from './kvs-codecs';
+import { KVSLogger, consoleLogger } from './kvs-logger';
+
+export type MediaKind = 'audio' | 'video';
+export type TrackDirection = 'inbound' | 'outbound';
+
+// One RTP stream. Rates cover the interval since the previous snapshot and are
+// undefined on the first one; cumulative counters are since the stream started.
+export interface TrackStats {
+  // RTP stats id, stable for the life of the stream
+  id: string;
+  kind: MediaKind;
+  direction: TrackDirection;
+  trackIdentifier?: string;
+  mid?: string;
+  codec?: string;
+  // Bits per second
+  bitrate?: number;
+  packetsPerSecond?: number;
+  // Percent of packets lost, 0..100
+  packetLoss?: number;
+  jitterMs?: number;
+  // Outbound only, measured by the remote side's receiver reports
+  rttMs?: number;
+  framesPerSecond?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  // Average per frame over the interval
+  decodeTimeMs?: number;
+  encodeTimeMs?: number;
+  freezeCount?: number;
+  freezeDurationMs?: number;
+  framesDropped?: number;
+  qualityLimitationReason?: string;
+  bytes: number;
+  packets: number;
+  packetsLost?: number;
+}
+
+export interface CandidateInfo {
+  candidateType?: string;
+  protocol?: string;
+  address?: string;
+  port?: number;
+  // Protocol between the browser and the TURN server, relay candidates only
+  relayProtocol?: string;
+}
+
+export interface CandidatePairStats {
+  id: string;
+  local: CandidateInfo;
+  remote: CandidateInfo;
+  rttMs?: number;
+  availableOutgoingBitrate?: number;
+  availableIncomingBitrate?: number;
+}
+
+export interface PeerStatsSnapshot {
+  remoteClientId: string;
+  timestamp: number;
+  // Time since the previous snapshot, undefined on the first
+  intervalMs?: number;
+  candidatePair?: CandidatePairStats;
+  rttMs?: number;
+  // Totals over all tracks, bits per second
+  inboundBitrate?: number;
+  outboundBitrate?: number;
+  tracks: TrackStats[];
+}
+
+function rate(current: number | undefined, previous: number | undefined, seconds: number): number | undefined {
+  if (current === undefined || previous === undefined || seconds <= 0) return undefined;
+  return Math.max(0, current - previous) / seconds;
+}
+
+function delta(current: number | undefined, previous: number | undefined): number | undefined {
+  if (current === undefined || previous === undefined) return undefined;
+  return Math.max(0, current - previous);
+}
+
+function percentLost(lost: number | undefined, received: number | undefined): number | undefined {
+  if (lost === undefined || received === undefined) return undefined;
+  const total = lost + received;
+  return total > 0 ? (lost / total) * 100 : 0;
+}
+
+function perFrameMs(totalSeconds: number | undefined, frames: number | undefined): number | undefined {
+  if (totalSeconds === undefined || !frames) return undefined;
+  return (totalSeconds / frames) * 1000;
+}
+
+function toMs(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
+
+function sumBitrate(tracks: TrackStats[]): number | undefined {
+  const rates = tracks.map(track => track.bitrate).filter((bitrate): bitrate is number => bitrate !== undefined);
+  return rates.length > 0 ? rates.reduce((total, bitrate) => total + bitrate, 0) : undefined;
+}
+
+function readCandidate(stats: any): CandidateInfo {
+  return {
+    candidateType: stats?.candidateType,
+    protocol: stats?.protocol,
+    address: stats?.address ?? stats?.ip,
+    port: stats?.port,
+    relayProtocol: stats?.relayProtocol,
+  };
+}
+
+export function getSelectedCandidatePair(report: RTCStatsReport): CandidatePairStats | undefined {
+  let pair: any;
+  report.forEach(stats => {
+    if (stats.type === 'transport' && stats.selectedCandidatePairId) {
+      pair = report.get(stats.selectedCandidatePairId);
+    }
+  });
+  // Firefox has no transport stats and flags the pair itself
+  if (!pair) {
+    report.forEach(stats => {
+      if (stats.type === 'candidate-pair' && (stats.selected || (stats.nominated && stats.state === 'succeeded'))) {
+        pair = pair || stats;
+      }
+    });
+  }
+  if (!pair) return undefined;
+
+  return {
+    id: pair.id,
+    local: readCandidate(report.get(pair.localCandidateId)),
+    remote: readCandidate(report.get(pair.remoteCandidateId)),
+    rttMs: toMs(pair.currentRoundTripTime),
+    availableOutgoingBitrate: pair.availableOutgoingBitrate,
+    availableIncomingBitrate: pair.availableIncomingBitrate,
+  };
+}
+
+function readTrack(stats: any, report: RTCStatsReport, previousReport: RTCStatsReport | undefined): TrackStats {
+  const inbound = stats.type === 'inbound-rtp';
+  const previous = previousReport?.get(stats.id);
+  const seconds = previous ? (stats.timestamp - previous.timestamp) / 1000 : 0;
+  const codec = stats.codecId ? report.get(stats.codecId) : undefined;
+  const bytesField = inbound ? 'bytesReceived' : 'bytesSent';
+  const packetsField = inbound ? 'packetsReceived' : 'packetsSent';
+
+  const track: TrackStats = {
+    id: stats.id,
+    kind: stats.kind,
+    direction: inbound ? 'inbound' : 'outbound',
+    trackIdentifier: stats.trackIdentifier,
+    mid: stats.mid,
+    codec: codec?.mimeType ? formatCodec(codec) : undefined,
+    frameWidth: stats.frameWidth,
+    frameHeight: stats.frameHeight,
+    bytes: stats[bytesField] || 0,
+    packets: stats[packetsField] || 0,
+  };
+
+  const bytesPerSecond = rate(stats[bytesField], previous?.[bytesField], seconds);
+  track.bitrate = bytesPerSecond === undefined ? undefined : Math.round(bytesPerSecond * 8);
+  track.packetsPerSecond = rate(stats[packetsField], previous?.[packetsField], seconds);
+
+  if (stats.kind === 'video') {
+    const framesField = inbound ? 'framesDecoded' : 'framesEncoded';
+    track.framesPerSecond = stats.framesPerSecond ?? rate(stats[framesField], previous?.[framesField], seconds);
+  }
+
+  if (inbound) {
+    track.packetsLost = stats.packetsLost;
+    track.jitterMs = toMs(stats.jitter);
+    track.freezeCount = stats.freezeCount;
+    track.freezeDurationMs = toMs(stats.totalFreezesDuration);
+    track.framesDropped = stats.framesDropped;
+    if (previous) {
+      track.packetLoss = percentLost(delta(stats.packetsLost, previous.packetsLost), delta(stats.packetsReceived, previous.packetsReceived));
+      track.decodeTimeMs = perFrameMs(delta(stats.totalDecodeTime, previous.totalDecodeTime), delta(stats.framesDecoded, previous.framesDecoded));
+    }
+  } else {
+    track.qualityLimitationReason = stats.qualityLimitationReason;
+    if (previous) {
+      track.encodeTimeMs = perFrameMs(delta(stats.totalEncodeTime, previous.totalEncodeTime), delta(stats.framesEncoded, previous.framesEncoded));
+    }
+
+    // Loss, jitter and RTT of what we send are only known from the receiver's reports
+    let remoteInbound: any;
+    report.forEach(candidate => {
+      if (candidate.type === 'remote-inbound-rtp' && candidate.localId === stats.id) {
+        remoteInbound = candidate;
+      }
+    });
+    if (remoteInbound) {
+      const previousRemote = previousReport?.get(remoteInbound.id);
+      track.packetsLost = remoteInbound.packetsLost;
+      track.jitterMs = toMs(remoteInbound.jitter);
+      track.rttMs = toMs(remoteInbound.roundTripTime);
+      track.packetLoss = previous && previousRemote
+        ? percentLost(delta(remoteInbound.packetsLost, previousRemote.packetsLost), delta(stats.packetsSent, previous.packetsSent))
+        : undefined;
+    }
+  }
+
+  return track;
+}
+
+// Normalizes a raw report; pass the previous report of the same peer for rates and deltas
+export function createStatsSnapshot(
+  remoteClientId: string,
+  report: RTCStatsReport,
+  previousReport?: RTCStatsReport,
+  previousSnapshot?: PeerStatsSnapshot
+): PeerStatsSnapshot {
+  const tracks: TrackStats[] = [];
+  let timestamp = Date.now();
+  report.forEach(stats => {
+    if ((stats.type === 'inbound-rtp' || stats.type === 'outbound-rtp') && (stats.kind === 'audio' || stats.kind === 'video')) {
+      tracks.push(readTrack(stats, report, previousReport));
+      timestamp = stats.timestamp || timestamp;
+    }
+  });
+
+  const candidatePair = getSelectedCandidatePair(report);
+  const outbound = tracks.filter(track => track.direction === 'outbound');
+  return {
+    remoteClientId,
+    timestamp,
+    intervalMs: previousSnapshot ? timestamp - previousSnapshot.timestamp : undefined,
+    candidatePair,
+    rttMs: candidatePair?.rttMs ?? outbound.find(track => track.rttMs !== undefined)?.rttMs,
+    inboundBitrate: sumBitrate(tracks.filter(track => track.direction === 'inbound')),
+    outboundBitrate: sumBitrate(outbound),
+    tracks,
+  };
+}
+
+export interface StatsCollectorOptions {
+  intervalMs: number;
+}
+
+export const DEFAULT_STATS_COLLECTOR_OPTIONS: StatsCollectorOptions = {
+  intervalMs: 1000,
+};
+
+// What the collector needs from the client; KVSWebRTCClient provides it
+export interface StatsSource {
+  getPeerIds(): string[];
+  getStats(remoteClientId: string): Promise<RTCStatsReport> | undefined;
+}
+
+export interface StatsCollectorEvents {
+  snapshot: (snapshot: PeerStatsSnapshot) => void;
+  track: (track: TrackStats, remoteClientId: string) => void;
+}
+
+interface PeerHistory {
+  report: RTCStatsReport;
+  snapshot: PeerStatsSnapshot;
+}
+
+// Samples every peer on an interval and emits one normalized snapshot per peer and one event per track
+export class KVSStatsCollector extends TypedEventEmitter<StatsCollectorEvents> {
+  private source: StatsSource;
+  private options: StatsCollectorOptions;
+  private logger: KVSLogger;
+  private history = new Map<string, PeerHistory>();
+  private timer?: ReturnType<typeof setInterval>;
+  private collecting = false;
+
+  constructor(source: StatsSource, options?: Partial<StatsCollectorOptions>, logger: KVSLogger = consoleLogger) {
+    super();
+    this.source = source;
+    this.options = { ...DEFAULT_STATS_COLLECTOR_OPTIONS, ...options };
+    this.logger = logger;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.collect();
+    }, this.options.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.history.clear();
+  }
+
+  getSnapshot(remoteClientId: string): PeerStatsSnapshot | undefined {
+    return this.history.get(remoteClientId)?.snapshot;
+  }
+
+  getSnapshots(): PeerStatsSnapshot[] {
+    return Array.from(this.history.values()).map(({ snapshot }) => snapshot);
+  }
+
+  async collect(): Promise<PeerStatsSnapshot[]> {
+    // A slow getStats() must not stack up samples
+    if (this.collecting) return [];
+    this.collecting = true;
+    try {
+      const peerIds = this.source.getPeerIds();
+      Array.from(this.history.keys()).forEach(remoteClientId => {
+        if (!peerIds.includes(remoteClientId)) {
+          this.history.delete(remoteClientId);
+        }
+      });
+
+      const snapshots = await Promise.all(peerIds.map(remoteClientId => this.collectPeer(remoteClientId).catch(error => {
+        // The peer may have closed mid-sample; it is dropped on the next collect
+        this.logger.warn('Stats collection failed', { remoteClientId, error });
+        return undefined;
+      })));
+      return snapshots.filter((snapshot): snapshot is PeerStatsSnapshot => !!snapshot);
+    } finally {
+      this.collecting = false;
+    }
+  }
+
+  private async collectPeer(remoteClientId: string): Promise<PeerStatsSnapshot | undefined> {
+    const report = await this.source.getStats(remoteClientId);
+    if (!report) return undefined;
+
+    const previous = this.history.get(remoteClientId);
+    const snapshot = createStatsSnapshot(remoteClientId, report, previous?.report, previous?.snapshot);
+    this.history.set(remoteClientId, { report, snapshot });
+
+    this.emit('snapshot', snapshot);
+    snapshot.tracks.forEach(track => this.emit('track', track, remoteClientId));
+    return snapshot;
+  }
+}
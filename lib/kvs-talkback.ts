@@ -0,0 +1,131 @@
+import { TypedEventEmitter } from './kvs-events';
+import { MediaInputKind, openDeviceTrack } from './kvs-devices';
+import { KVSLogger, consoleLogger } from './kvs-logger';
+
+export type TalkbackMode = 'off' | 'pushToTalk' | 'continuous';
+
+export interface TalkbackState {
+  mode: TalkbackMode;
+  // Kept while off, so the camera comes back with the next mode
+  camera: boolean;
+  // Whether the master currently hears the microphone
+  talking: boolean;
+}
+
+// The part of KVSWebRTCClient talkback sends through; adding or removing a track renegotiates
+export interface TalkbackTarget {
+  addTrack(track: MediaStreamTrack): void;
+  removeTrack(track: MediaStreamTrack): void;
+}
+
+export interface TalkbackEvents {
+  stateChange: (state: TalkbackState) => void;
+}
+
+export type TrackOpener = (kind: MediaInputKind) => Promise<MediaStreamTrack>;
+
+// Sends the viewer's microphone, and optionally camera, back to the master.
+// Push-to-talk keeps the microphone negotiated and only enables it while held, so talking starts without a renegotiation.
+export class TalkbackController extends TypedEventEmitter<TalkbackEvents> {
+  private target: TalkbackTarget;
+  private openTrack: TrackOpener;
+  private logger: KVSLogger;
+  private state: TalkbackState = { mode: 'off', camera: false, talking: false };
+  private microphone?: MediaStreamTrack;
+  private cameraTrack?: MediaStreamTrack;
+  // Changes run one at a time so a quick toggle cannot open a device twice
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(target: TalkbackTarget, openTrack: TrackOpener = kind => openDeviceTrack(kind), logger: KVSLogger = consoleLogger) {
+    super();
+    this.target = target;
+    this.openTrack = openTrack;
+    this.logger = logger;
+  }
+
+  getState(): TalkbackState {
+    return this.state;
+  }
+
+  // For a local preview of what the master sees
+  getCameraTrack(): MediaStreamTrack | undefined {
+    return this.cameraTrack;
+  }
+
+  setMode(mode: TalkbackMode): Promise<void> {
+    return this.enqueue(async () => {
+      if (mode === 'off') {
+        this.release('audio');
+        this.release('video');
+      } else {
+        await this.open('audio');
+        if (this.state.camera) await this.open('video');
+      }
+      this.update({ mode, talking: mode === 'continuous' });
+    });
+  }
+
+  setCamera(camera: boolean): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.state.mode !== 'off') {
+        if (camera) {
+          await this.open('video');
+        } else {
+          this.release('video');
+        }
+      }
+      this.update({ camera });
+    });
+  }
+
+  // Press and release of the push-to-talk control; ignored in the other modes
+  setTalking(talking: boolean): void {
+    if (this.state.mode !== 'pushToTalk' || talking === this.state.talking) return;
+    this.update({ talking });
+  }
+
+  stop(): Promise<void> {
+    return this.setMode('off');
+  }
+
+  private enqueue(change: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(change);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async open(kind: 'audio' | 'video'): Promise<void> {
+    if (kind === 'audio' ? this.microphone : this.cameraTrack) return;
+    const track = await this.openTrack(kind === 'audio' ? 'audioinput' : 'videoinput');
+    if (kind === 'audio') {
+      // Silent until the mode says otherwise
+      track.enabled = false;
+      this.microphone = track;
+    } else {
+      this.cameraTrack = track;
+    }
+    this.target.addTrack(track);
+    this.logger.info('Talkback track added', { kind });
+  }
+
+  private release(kind: 'audio' | 'video'): void {
+    const track = kind === 'audio' ? this.microphone : this.cameraTrack;
+    if (!track) return;
+    this.target.removeTrack(track);
+    track.stop();
+    if (kind === 'audio') {
+      this.microphone = undefined;
+    } else {
+      this.cameraTrack = undefined;
+    }
+    this.logger.info('Talkback track removed', { kind });
+  }
+
+  private update(change: Partial<TalkbackState>): void {
+    this.state = { ...this.state, ...change };
+    if (this.microphone) {
+      this.microphone.enabled = this.state.talking;
+    }
+    this.emit('stateChange', this.state);
+  }
+}
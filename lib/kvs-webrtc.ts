@@ -1,206 +1,752 @@
-import { KinesisVideoClient, DescribeSignalingChannelCommand, GetSignalingChannelEndpointCommand } from '@aws-sdk/client-kinesis-video';
-import { KinesisVideoSignalingClient, GetIceServerConfigCommand } from '@aws-sdk/client-kinesis-video-signaling';
+import { KinesisVideoClient, DescribeSignalingChannelCommand } from '@aws-sdk/client-kinesis-video';
 import { SignalingClient, Role } from 'amazon-kinesis-video-streams-webrtc';
+import { ReconnectOptions, getReconnectDelay, resolveReconnectOptions } from './kvs-reconnect';
+import {
+  ConnectionState,
+  ConnectionTimeouts,
+  canTransition,
+  resolveConnectionTimeouts,
+} from './kvs-connection-state';
+import {
+  ICE_SERVER_REFRESH_MARGIN_MS,
+  IceServer,
+  IceServerConfig,
+  resolveIceServers,
+  resolveSignalingEndpoints,
+} from './kvs-signaling-channel';
+import {
+  ClockSkewMeasurement,
+  MIN_CLOCK_CORRECTION_MS,
+  getServerTimeFromSkewError,
+  isClockSkewError,
+} from './kvs-clock-skew';
+import { CreateChannelOptions, KVSChannelManager } from './kvs-channels';
+import { PresignedRequestSigner, PresignedSignalingPayload, fetchPresignedSignalingPayload } from './kvs-presigned';
+import { DataChannelMessageData, KVSClientEvents, TypedEventEmitter } from './kvs-events';
+import { KVSLogger, LogLevel, consoleLogger, createContextLogger } from './kvs-logger';
+import { CodecPreferences, NegotiatedCodecs, applyCodecPreferences, getNegotiatedCodecs } from './kvs-codecs';
+import { EncodingOptions, applyEncodingParameters, mergeEncodingOptions, validateEncodingOptions } from './kvs-encoding';
+import { AdaptiveBitrateController, AdaptiveBitrateOptions } from './kvs-adaptive-bitrate';
+import { KVSStatsCollector, MediaKind, PeerStatsSnapshot, StatsCollectorOptions } from './kvs-stats';
+import { MediaOptions, addViewerTransceivers, getReceivingKinds, resolveMediaOptions } from './kvs-media';
+import {
+  LocalSignalingTransport,
+  SignalingTransport,
+  SignalingTransportConfig,
+  SignalingTransportFactory,
+} from './kvs-signaling-transport';
+import {
+  ChannelNotFoundError,
+  ConnectionAbortedError,
+  EndpointResolutionError,
+  IceFailedError,
+  InvalidCredentialsError,
+  KVSError,
+  MasterNotPresentError,
+  SignalingTimeoutError,
+  isChannelNotFoundError,
+  toKVSError,
+} from './kvs-errors';
+import {
+  KVSCredentialProvider,
+  KVSCredentials,
+  resolveCredentialsProvider,
+  toSignalingCredentials,
+} from './kvs-credentials';
 
 export interface KVSConfig {
   region: string;
-  accessKeyId: string;
-  secretAccessKey: string;
   channelName: string;
+  // Static keys, only meant for local development
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  // Identity or provider (Cognito, STS, backend endpoint); takes precedence over static keys
+  credentials?: KVSCredentials;
+  // Server mode: a route (e.g. /api/kvs/signaling) vending pre-signed signaling URLs and ICE servers.
+  // No AWS call is made from the browser and no credentials are needed.
+  signalingUrlEndpoint?: string;
+  // Sent to signalingUrlEndpoint as a bearer token, e.g. the route's KVS_MASTER_TOKEN for producers
+  signalingUrlToken?: string;
+  // Local mode: the local signaling server (npm run signaling:local) stands in for KVS. No AWS call is
+  // made and no credentials are needed; without TURN, peers only connect over host and STUN candidates.
+  localSignalingUrl?: string;
+  // Replaces how the signaling connection is made, e.g. with a fake in tests. Defaults to the KVS
+  // SignalingClient, or LocalSignalingTransport in local mode.
+  signalingTransport?: SignalingTransportFactory;
+  reconnect?: Partial<ReconnectOptions>;
+  timeouts?: Partial<ConnectionTimeouts>;
+  // Receives every log entry with role, clientId, channel and timestamp attached and credentials redacted
+  logger?: KVSLogger;
+  // Entries below this level are dropped; defaults to 'info'
+  logLevel?: LogLevel;
+  // Create the signaling channel on connect if it does not exist yet. Needs kinesisvideo:CreateSignalingChannel;
+  // ignored in server mode.
+  createChannelIfMissing?: boolean | CreateChannelOptions;
+  // Codec order for offers and answers, or with restrict the only codecs negotiated
+  codecs?: CodecPreferences;
+  // Initial encoder caps for every sender; change them live with setEncodingParameters()
+  encoding?: EncodingOptions;
+  // Master only: step each viewer's video encoding down on congestion and back up once it clears.
+  // Decisions are emitted as 'bitrateAdaptation'; manual per-viewer caps are overridden while enabled.
+  adaptiveBitrate?: boolean | Partial<AdaptiveBitrateOptions>;
+  // Normalized stats sampled for every peer and emitted as 'statsSnapshot'; on by default, false turns it off
+  stats?: false | Partial<StatsCollectorOptions>;
+  // Viewer only: the transceivers its offers declare, e.g. { video: 'none' } to join as an audio-only
+  // listener. Defaults to receiving both; the master sends only what each viewer's offer asks for.
+  media?: Partial<MediaOptions>;
 }
 
-export interface IceServer {
-  urls: string | string[];
-  username?: string;
-  credential?: string;
+export interface ConnectOptions {
+  // Aborting cancels an in-flight connect() the same way disconnect() does
+  signal?: AbortSignal;
 }
 
-export class KVSWebRTCClient {
-  private kinesisVideoClient: KinesisVideoClient;
-  private kinesisVideoSignalingClient: KinesisVideoSignalingClient;
-  private signalingClient?: SignalingClient;
-  private peerConnection?: RTCPeerConnection;
+export interface KVSDiagnostics {
+  clockSkew?: ClockSkewMeasurement;
+}
+
+export type { IceServer } from './kvs-signaling-channel';
+export type { ConnectionState } from './kvs-connection-state';
+export type { CodecPreferences, NegotiatedCodecs } from './kvs-codecs';
+export type { EncodingOptions } from './kvs-encoding';
+export type { AdaptiveBitrateOptions, BitrateDecision } from './kvs-adaptive-bitrate';
+export type { PeerStatsSnapshot, TrackStats, CandidatePairStats, StatsCollectorOptions } from './kvs-stats';
+export type { MediaDirection, MediaOptions } from './kvs-media';
+
+// KVS signaling channels allow up to 10 concurrent viewers per master
+export const MAX_VIEWERS = 10;
+
+export const DEFAULT_DATA_CHANNEL_LABEL = 'kvsDataChannel';
+
+export type DataChannelPayload = string | Blob | ArrayBuffer | ArrayBufferView;
+
+export interface SendOptions {
+  // Master only: viewer(s) to address, all connected viewers when omitted
+  remoteClientId?: string | string[];
+  label?: string;
+}
+
+// RTCDataChannel.send has one overload per payload type rather than one taking the union
+function sendDataChannelPayload(channel: RTCDataChannel, data: DataChannelPayload): void {
+  if (typeof data === 'string') {
+    channel.send(data);
+  } else if (data instanceof Blob) {
+    channel.send(data);
+  } else if (data instanceof ArrayBuffer) {
+    channel.send(data);
+  } else {
+    channel.send(data);
+  }
+}
+
+// Key used for the single peer connection a viewer holds with the master
+const MASTER_PEER_ID = 'MASTER';
+
+// The DTLS fingerprint survives an ICE restart but changes with every new RTCPeerConnection
+function getSdpFingerprint(sdp?: string): string | undefined {
+  return sdp?.match(/a=fingerprint:(\S+ \S+)/)?.[1];
+}
+
+// New ICE credentials in an offer for an existing session mean an ICE restart
+function getSdpIceUfrag(sdp?: string): string | undefined {
+  return sdp?.match(/a=ice-ufrag:(\S+)/)?.[1];
+}
+
+export class KVSWebRTCClient extends TypedEventEmitter<KVSClientEvents> {
+  private kinesisVideoClient?: KinesisVideoClient;
+  private signalingClient?: SignalingTransport;
+  private channelARN?: string;
+  private endpointsByProtocol?: Record<string, string>;
+  private iceServers: IceServer[] = [];
+  // Peer connections are only created once this settles; it runs alongside the signaling open
+  private iceServersReady: Promise<void> = Promise.resolve();
+  private iceServerRefreshTimer?: ReturnType<typeof setTimeout>;
+  // Master holds one peer connection per viewer, viewer holds one keyed by MASTER_PEER_ID
+  private peerConnections = new Map<string, RTCPeerConnection>();
+  private remoteStreams = new Map<string, MediaStream>();
+  private pendingICECandidates = new Map<string, RTCIceCandidateInit[]>();
+  // Data channels per remote peer, keyed by label
+  private dataChannels = new Map<string, Map<string, RTCDataChannel>>();
+  private dataChannelOptions = new Map<string, RTCDataChannelInit>();
   private localStream?: MediaStream;
-  private remoteStream?: MediaStream;
   private role: Role;
   private config: KVSConfig;
-  private onRemoteStreamCallback?: (stream: MediaStream) => void;
-  private onConnectionStateChangeCallback?: (state: RTCPeerConnectionState) => void;
-  private onErrorCallback?: (error: Error) => void;
-  private pendingICECandidates: RTCIceCandidate[] = [];
+  private credentialsProvider?: KVSCredentialProvider;
+  private presignedPayload?: PresignedSignalingPayload;
+  // Offset applied when signing the signaling URL, kept in line with the control plane's measurements
+  private systemClockOffset = 0;
+  private clockSkew?: ClockSkewMeasurement;
+  private clientId?: string;
+  private logger: KVSLogger;
+  private reconnectOptions: ReconnectOptions;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private disconnectedTimer?: ReturnType<typeof setTimeout>;
+  private iceRestartTimer?: ReturnType<typeof setTimeout>;
+  private answerTimer?: ReturnType<typeof setTimeout>;
+  // Last failure of a reconnection attempt, reported if reconnection gives up
+  private lastReconnectError?: KVSError;
+  // Master keeps failed viewers around briefly so they can recover with an ICE restart
+  private failedViewerTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private state: ConnectionState = 'idle';
+  // Replaced on every connect() and aborted by disconnect(), so async work from an old session stops
+  private lifecycleController = new AbortController();
+  private timeouts: ConnectionTimeouts;
+  // Applied to the senders of every new peer connection
+  private encodingOptions: EncodingOptions;
+  private mediaOptions: MediaOptions;
+  // Master viewers whose peer connection reached 'connected', for viewerConnected/viewerDisconnected
+  private connectedViewers = new Set<string>();
+  // Peers we are creating an offer for, to detect offer collisions during renegotiation
+  private makingOffer = new Set<string>();
+  private adaptiveBitrate?: AdaptiveBitrateController;
+  private statsCollector?: KVSStatsCollector;
 
   constructor(config: KVSConfig, role: 'MASTER' | 'VIEWER') {
+    super();
     this.config = config;
     this.role = role === 'MASTER' ? Role.MASTER : Role.VIEWER;
+    this.reconnectOptions = resolveReconnectOptions(config.reconnect);
+    this.timeouts = resolveConnectionTimeouts(config.timeouts);
+    this.encodingOptions = config.encoding || {};
+    this.mediaOptions = resolveMediaOptions(config.media);
 
-    const credentials = {
-      accessKeyId: config.accessKeyId,
-      secretAccessKey: config.secretAccessKey,
-    };
+    // Viewer keeps the same clientId across reconnects so the master replaces its old session
+    if (this.role === Role.VIEWER) {
+      this.clientId = `viewer-${Date.now()}-${Math.random().toString(36).substring(2)}`;
+    }
 
-    this.kinesisVideoClient = new KinesisVideoClient({
-      region: config.region,
-      credentials,
-    });
+    this.logger = createContextLogger(config.logger || consoleLogger, {
+      role,
+      clientId: this.clientId,
+      channel: config.channelName,
+    }, config.logLevel);
+
+    if (config.stats !== false) {
+      // Reads the peer connections directly so sampling does not flood 'stats' listeners
+      this.statsCollector = new KVSStatsCollector({
+        getPeerIds: () => Array.from(this.peerConnections.keys()),
+        getStats: remoteClientId => this.peerConnections.get(remoteClientId)?.getStats(),
+      }, config.stats, this.logger);
+      this.statsCollector.on('snapshot', snapshot => this.emit('statsSnapshot', snapshot));
+    }
+
+    if (config.adaptiveBitrate && this.role === Role.MASTER) {
+      // Only viewers with media flowing have stats worth acting on. Like the stats collector it reads the
+      // peer connections directly, so 'stats' only fires for requests made through getStats()
+      this.adaptiveBitrate = new AdaptiveBitrateController({
+        getViewerIds: () => Array.from(this.connectedViewers),
+        getStats: remoteClientId => this.peerConnections.get(remoteClientId)?.getStats(),
+        setEncodingParameters: (options, remoteClientId) => this.setEncodingParameters(options, remoteClientId),
+      }, config.adaptiveBitrate === true ? {} : config.adaptiveBitrate, this.logger);
+      this.adaptiveBitrate.on('adaptation', decision => {
+        this.logger.info('Bitrate adapted', { ...decision });
+        this.emit('bitrateAdaptation', decision);
+      });
+    }
 
-    this.kinesisVideoSignalingClient = new KinesisVideoSignalingClient({
+    // In server mode everything AWS-facing happens behind signalingUrlEndpoint, local mode has none
+    if (config.signalingUrlEndpoint || config.localSignalingUrl) {
+      return;
+    }
+
+    this.credentialsProvider = resolveCredentialsProvider(config);
+    if (!this.credentialsProvider) {
+      throw new Error('KVSConfig requires credentials, accessKeyId and secretAccessKey, signalingUrlEndpoint or localSignalingUrl');
+    }
+
+    // The control plane, channel signaling and WebSocket clients all sign with this one provider
+    this.kinesisVideoClient = new KinesisVideoClient({
       region: config.region,
-      credentials,
+      credentials: this.credentialsProvider,
     });
   }
 
-  async connect(localStream?: MediaStream): Promise<void> {
+  async connect(localStream?: MediaStream, options: ConnectOptions = {}): Promise<void> {
+    if (this.state !== 'idle' && this.state !== 'closed') {
+      throw new Error(`connect() called while ${this.state}`);
+    }
+    if (options.signal?.aborted) {
+      throw new ConnectionAbortedError();
+    }
+
+    const controller = new AbortController();
+    this.lifecycleController = controller;
+    const { signal } = controller;
+    const onAbort = () => this.disconnect();
+    options.signal?.addEventListener('abort', onAbort);
+
     try {
-      this.localStream = localStream;
+      // Tracks added with addTrack() before connect() are kept
+      this.localStream = localStream || this.localStream;
+      this.reconnectAttempt = 0;
+      this.transition('resolving');
+
+      // Resolve credentials up front so a broken provider fails before any AWS call
+      if (this.credentialsProvider) {
+        await this.credentialsProvider().catch(error => {
+          throw toKVSError(error, cause => new InvalidCredentialsError(`Failed to load AWS credentials: ${String(cause)}`, cause));
+        });
+        this.throwIfAborted(signal);
+      }
 
-      // Get signaling channel ARN
-      const describeSignalingChannelCommand = new DescribeSignalingChannelCommand({
-        ChannelName: this.config.channelName,
+      try {
+        if (this.config.createChannelIfMissing && this.kinesisVideoClient) {
+          const options = this.config.createChannelIfMissing === true ? {} : this.config.createChannelIfMissing;
+          const channelManager = new KVSChannelManager(this.kinesisVideoClient, this.logger);
+          await this.withClockSkewCorrection(() => channelManager.ensureChannel(this.config.channelName, options));
+        }
+
+        await this.resolveSignalingChannel();
+      } catch (error) {
+        throw this.toResolutionError(error);
+      }
+      this.throwIfAborted(signal);
+      this.transition('signaling');
+
+      // TURN credentials are only needed for peer connections, so fetch them while signaling opens.
+      // Viewer creates its peer connection up front, master creates one per incoming offer.
+      this.iceServersReady = this.loadIceServers().then(() => {
+        this.throwIfAborted(signal);
+        if (this.role === Role.VIEWER) {
+          this.createPeerConnection(MASTER_PEER_ID);
+        }
+      }, error => {
+        throw this.toResolutionError(error);
       });
-      const describeSignalingChannelResponse = await this.kinesisVideoClient.send(describeSignalingChannelCommand);
 
-      const channelARN = describeSignalingChannelResponse.ChannelInfo?.ChannelARN;
-      if (!channelARN) {
-        throw new Error('Failed to get channel ARN');
+      await Promise.all([this.iceServersReady, this.openSignalingWithSkewCorrection(signal)]);
+      this.throwIfAborted(signal);
+      this.statsCollector?.start();
+
+      // The master is live once signaling is open; the viewer moves on as its offer goes out
+      if (this.role === Role.MASTER) {
+        this.transition('connected');
+        this.adaptiveBitrate?.start();
+      }
+    } catch (error) {
+      // disconnect() has already torn everything down
+      if (signal.aborted) {
+        throw new ConnectionAbortedError();
       }
 
-      console.log('Channel ARN:', channelARN);
+      this.logger.error('Connection failed', { error });
+      this.teardown();
+      const kvsError = toKVSError(error);
+      this.emit('error', kvsError);
+      throw kvsError;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
 
-      // Get signaling channel endpoints
-      const getSignalingChannelEndpointCommand = new GetSignalingChannelEndpointCommand({
-        ChannelARN: channelARN,
-        SingleMasterChannelEndpointConfiguration: {
-          Protocols: ['WSS', 'HTTPS'],
-          Role: this.role,
-        },
-      });
-      const getSignalingChannelEndpointResponse = await this.kinesisVideoClient.send(getSignalingChannelEndpointCommand);
-
-      const endpointsByProtocol = getSignalingChannelEndpointResponse.ResourceEndpointList?.reduce(
-        (endpoints: any, endpoint: any) => {
-          endpoints[endpoint.Protocol] = endpoint.ResourceEndpoint;
-          return endpoints;
-        },
-        {}
-      );
+  getState(): ConnectionState {
+    return this.state;
+  }
 
-      if (!endpointsByProtocol) {
-        throw new Error('Failed to get signaling endpoints');
+  // Returns false for a no-op or a transition the lifecycle does not allow
+  private transition(to: ConnectionState): boolean {
+    const from = this.state;
+    if (from === to) return false;
+    if (!canTransition(from, to)) {
+      this.logger.warn('Ignoring connection state transition', { from, to });
+      return false;
+    }
+
+    this.state = to;
+    this.logger.info('Connection state changed', { from, to });
+    this.emit('stateChange', to, from);
+    return true;
+  }
+
+  private throwIfAborted(signal: AbortSignal): void {
+    if (signal.aborted) {
+      throw new ConnectionAbortedError();
+    }
+  }
+
+  private toResolutionError(error: unknown): KVSError {
+    if (isChannelNotFoundError(error)) {
+      return new ChannelNotFoundError(this.config.channelName, error);
+    }
+    return toKVSError(error, cause =>
+      new EndpointResolutionError(`Failed to resolve signaling channel ${this.config.channelName}: ${cause instanceof Error ? cause.message : String(cause)}`, cause)
+    );
+  }
+
+  // Channel ARN and endpoints come from a cache shared across clients unless forceRefresh is set
+  private async resolveSignalingChannel(forceRefresh = false): Promise<void> {
+    if (this.config.localSignalingUrl) {
+      this.channelARN = `local:${this.config.channelName}`;
+      this.endpointsByProtocol = { WSS: this.config.localSignalingUrl };
+      this.logger.info('Using local signaling server', { endpoint: this.config.localSignalingUrl });
+      return;
+    }
+
+    if (this.config.signalingUrlEndpoint) {
+      const payload = await this.fetchPresignedPayload();
+      this.presignedPayload = payload;
+      this.channelARN = payload.channelARN;
+      this.endpointsByProtocol = { WSS: payload.channelEndpoint };
+      this.logger.info('Using pre-signed signaling URL', { channelARN: payload.channelARN });
+      return;
+    }
+
+    const { channelARN, endpointsByProtocol } = await this.withClockSkewCorrection(() =>
+      resolveSignalingEndpoints(this.kinesisVideoClient!, this.config.channelName, this.role, forceRefresh, this.logger)
+    );
+    this.channelARN = channelARN;
+    this.endpointsByProtocol = endpointsByProtocol;
+  }
+
+  private async loadIceServers(forceRefresh = false): Promise<void> {
+    let config: IceServerConfig;
+    if (this.config.localSignalingUrl) {
+      // Nothing vends TURN credentials offline, and there is nothing to refresh
+      this.iceServers = [];
+      return;
+    }
+
+    if (this.config.signalingUrlEndpoint) {
+      const payload = this.presignedPayload;
+      if (forceRefresh || !payload || payload.iceServersExpireAt - Date.now() <= ICE_SERVER_REFRESH_MARGIN_MS) {
+        this.presignedPayload = await this.fetchPresignedPayload();
       }
+      config = { iceServers: this.presignedPayload!.iceServers, expiresAt: this.presignedPayload!.iceServersExpireAt };
+    } else {
+      const endpoints = { channelARN: this.channelARN!, endpointsByProtocol: this.endpointsByProtocol! };
+      config = await this.withClockSkewCorrection(() =>
+        resolveIceServers(this.kinesisVideoClient!, this.config.channelName, this.role, endpoints, forceRefresh, this.logger)
+      );
+    }
+    if (this.state === 'closed') return;
 
-      console.log('Role:', this.role === Role.MASTER ? 'MASTER' : 'VIEWER');
-      console.log('WSS Endpoint:', endpointsByProtocol.WSS);
+    this.iceServers = config.iceServers;
+
+    // Live sessions get the new TURN credentials for any later ICE restart
+    this.peerConnections.forEach(peerConnection => {
+      peerConnection.setConfiguration({ ...peerConnection.getConfiguration(), iceServers: config.iceServers });
+    });
+
+    this.scheduleIceServerRefresh(config.expiresAt);
+  }
+
+  // Refreshes TURN credentials in the background shortly before they expire
+  private scheduleIceServerRefresh(expiresAt: number): void {
+    if (this.iceServerRefreshTimer) {
+      clearTimeout(this.iceServerRefreshTimer);
+    }
 
-      // Get ICE server configuration
-      const getIceServerConfigCommand = new GetIceServerConfigCommand({
-        ChannelARN: channelARN,
+    const delayMs = Math.max(1000, expiresAt - ICE_SERVER_REFRESH_MARGIN_MS - Date.now());
+    this.iceServerRefreshTimer = setTimeout(() => {
+      this.iceServerRefreshTimer = undefined;
+      if (this.state === 'closed') return;
+      this.logger.info('Refreshing ICE server credentials');
+      this.loadIceServers().catch(error => {
+        this.logger.error('Failed to refresh ICE server credentials', { error });
       });
-      const getIceServerConfigResponse = await this.kinesisVideoSignalingClient.send(getIceServerConfigCommand);
-
-      const iceServers: IceServer[] = [];
-      if (getIceServerConfigResponse.IceServerList) {
-        getIceServerConfigResponse.IceServerList.forEach((iceServer: any) => {
-          iceServers.push({
-            urls: iceServer.Uris,
-            username: iceServer.Username,
-            credential: iceServer.Password,
-          });
-        });
+    }, delayMs);
+  }
+
+  // Runs a control-plane call, retrying it once with a corrected offset if it was rejected for clock skew.
+  // The SDK tracks the Date header of successful responses itself; that is picked up afterwards.
+  private async withClockSkewCorrection<T>(request: () => Promise<T>): Promise<T> {
+    const kinesisVideoClient = this.kinesisVideoClient!;
+    let result: T;
+    try {
+      result = await request();
+    } catch (error) {
+      const serverTime = isClockSkewError(error) ? getServerTimeFromSkewError(error) : undefined;
+      if (!serverTime) throw error;
+
+      const offsetMs = serverTime.getTime() - Date.now();
+      this.logger.warn('Request rejected for clock skew, retrying with corrected offset', { offsetMs });
+      kinesisVideoClient.config.systemClockOffset = offsetMs;
+      this.recordClockSkew(offsetMs, 'skew-error');
+      result = await request();
+    }
+
+    // Ignore sub-second jitter between consecutive Date header measurements
+    const sdkOffset = kinesisVideoClient.config.systemClockOffset;
+    if (typeof sdkOffset === 'number' && (!this.clockSkew || Math.abs(sdkOffset - this.systemClockOffset) >= 1000)) {
+      this.recordClockSkew(sdkOffset, 'control-plane');
+    }
+    return result;
+  }
+
+  private recordClockSkew(offsetMs: number, source: ClockSkewMeasurement['source']): void {
+    this.systemClockOffset = offsetMs;
+    this.clockSkew = { offsetMs, source, measuredAt: new Date() };
+    this.logger.info('Clock skew measured', { source, offsetMs });
+    this.emit('clockSkew', this.clockSkew);
+  }
+
+  // A skewed clock only shows up as an opaque WebSocket failure, so on failure the skew is re-measured
+  // against the control plane and the open retried once if the offset moved
+  private async openSignalingWithSkewCorrection(signal: AbortSignal): Promise<void> {
+    const usedOffset = this.systemClockOffset;
+    try {
+      await this.openSignaling(signal);
+    } catch (error) {
+      if (signal.aborted || !this.kinesisVideoClient || !this.channelARN) throw error;
+
+      try {
+        await this.withClockSkewCorrection(() =>
+          this.kinesisVideoClient!.send(new DescribeSignalingChannelCommand({ ChannelARN: this.channelARN }))
+        );
+      } catch {
+        throw error;
       }
 
-      console.log('ICE servers configured:', iceServers.length);
+      if (Math.abs(this.systemClockOffset - usedOffset) < MIN_CLOCK_CORRECTION_MS) throw error;
 
-      // Create peer connection
-      this.peerConnection = new RTCPeerConnection({
-        iceServers,
-        iceTransportPolicy: 'all',
-      });
+      this.throwIfAborted(signal);
+      this.logger.info('Retrying signaling with corrected clock offset', { offsetMs: this.systemClockOffset });
+      this.closeSignalingClient();
+      await this.openSignaling(signal);
+    }
+  }
 
-      // Add local stream tracks to peer connection
-      // Master always adds tracks for streaming
-      // Viewer can optionally add tracks for bidirectional communication
-      if (this.localStream) {
-        this.localStream.getTracks().forEach(track => {
-          console.log(`${this.role === Role.MASTER ? 'Master' : 'Viewer'} adding local track:`, track.kind);
-          this.peerConnection?.addTrack(track, this.localStream!);
-        });
+  private fetchPresignedPayload(): Promise<PresignedSignalingPayload> {
+    return fetchPresignedSignalingPayload(this.config.signalingUrlEndpoint!, {
+      channelName: this.config.channelName,
+      role: this.role === Role.MASTER ? 'MASTER' : 'VIEWER',
+      clientId: this.clientId,
+    }, this.config.signalingUrlToken);
+  }
+
+  private async openSignaling(signal: AbortSignal): Promise<void> {
+    this.throwIfAborted(signal);
+
+    // Create signaling client
+    this.logger.debug('Creating signaling client', { endpoint: this.endpointsByProtocol?.WSS });
+    this.signalingClient = this.createSignalingTransport({
+      channelName: this.config.channelName,
+      channelARN: this.channelARN!,
+      channelEndpoint: this.endpointsByProtocol!.WSS,
+      role: this.role === Role.MASTER ? 'MASTER' : 'VIEWER',
+      // Viewer needs a clientId
+      clientId: this.role === Role.VIEWER ? this.clientId : undefined,
+    });
+
+    // Set up signaling event handlers
+    this.setupSignalingHandlers();
+
+    // Open signaling connection
+    this.logger.info('Opening signaling connection');
+    this.signalingClient.open();
+
+    // Wait for connection
+    await this.waitForConnection(this.signalingClient, signal);
+  }
+
+  private createSignalingTransport(transportConfig: SignalingTransportConfig): SignalingTransport {
+    if (this.config.signalingTransport) {
+      return this.config.signalingTransport(transportConfig);
+    }
+    if (this.config.localSignalingUrl) {
+      return new LocalSignalingTransport(transportConfig);
+    }
+
+    const signalingConfig: any = {
+      ...transportConfig,
+      role: this.role,
+      region: this.config.region,
+      systemClockOffset: this.systemClockOffset,
+    };
+
+    if (this.config.signalingUrlEndpoint) {
+      signalingConfig.requestSigner = new PresignedRequestSigner(() => this.fetchPresignedPayload(), this.presignedPayload);
+    } else {
+      signalingConfig.credentials = toSignalingCredentials(this.credentialsProvider!);
+    }
+
+    return new SignalingClient(signalingConfig);
+  }
+
+  private createPeerConnection(remoteClientId: string): RTCPeerConnection {
+    const peerConnection = new RTCPeerConnection({
+      iceServers: this.iceServers,
+      iceTransportPolicy: 'all',
+    });
+    this.peerConnections.set(remoteClientId, peerConnection);
+
+    // Master adds its tracks once the viewer's offer says what it wants to receive
+    if (this.role === Role.VIEWER) {
+      const skipped = addViewerTransceivers(peerConnection, this.mediaOptions, this.localStream);
+      this.logger.debug('Added transceivers', { media: this.mediaOptions, skipped, remoteClientId });
+    }
+
+    // Handle remote stream
+    peerConnection.ontrack = (event) => {
+      this.logger.info('Received remote track', { kind: event.track.kind, remoteClientId });
+      let remoteStream = this.remoteStreams.get(remoteClientId);
+      if (!remoteStream) {
+        remoteStream = new MediaStream();
+        this.remoteStreams.set(remoteClientId, remoteStream);
       }
+      remoteStream.addTrack(event.track);
+      this.emit('remoteTrackAdded', event.track, remoteStream, remoteClientId);
+      this.emit('remoteStream', remoteStream, remoteClientId);
 
-      // Handle remote stream
-      this.peerConnection.ontrack = (event) => {
-        console.log('Received remote track:', event.track.kind);
-        if (!this.remoteStream) {
-          this.remoteStream = new MediaStream();
-        }
-        this.remoteStream.addTrack(event.track);
-        if (this.onRemoteStreamCallback) {
-          this.onRemoteStreamCallback(this.remoteStream);
+      // Remote side stopped sending this track (e.g. removed it and renegotiated)
+      const stream = remoteStream;
+      event.track.addEventListener('ended', () => {
+        if (stream.getTracks().includes(event.track)) {
+          stream.removeTrack(event.track);
+          this.emit('remoteTrackRemoved', event.track, stream, remoteClientId);
         }
-      };
+      });
+    };
 
-      // Monitor connection state
-      this.peerConnection.onconnectionstatechange = () => {
-        if (this.peerConnection) {
-          console.log('Peer connection state:', this.peerConnection.connectionState);
-          if (this.onConnectionStateChangeCallback) {
-            this.onConnectionStateChangeCallback(this.peerConnection.connectionState);
-          }
-        }
-      };
+    // Monitor connection state
+    peerConnection.onconnectionstatechange = () => {
+      this.logger.info('Peer connection state changed', { state: peerConnection.connectionState, remoteClientId });
+      this.emit('connectionStateChange', peerConnection.connectionState, remoteClientId);
 
-      // Monitor ICE connection state
-      this.peerConnection.oniceconnectionstatechange = () => {
-        if (this.peerConnection) {
-          console.log('ICE connection state:', this.peerConnection.iceConnectionState);
-        }
-      };
+      if (this.role === Role.MASTER) {
+        this.handleMasterConnectionState(remoteClientId, peerConnection.connectionState);
+      } else {
+        this.handleViewerConnectionState(peerConnection.connectionState);
+      }
+    };
+
+    // Monitor ICE connection state
+    // Viewer is the offerer, so it drives ICE restarts and the master only answers them
+    peerConnection.oniceconnectionstatechange = () => {
+      this.logger.debug('ICE connection state changed', { state: peerConnection.iceConnectionState, remoteClientId });
+      this.emit('iceConnectionStateChange', peerConnection.iceConnectionState, remoteClientId);
+      if (this.role === Role.VIEWER) {
+        this.handleViewerIceConnectionState(peerConnection.iceConnectionState);
+      }
+    };
 
-      // Set up ICE candidate handling
-      this.peerConnection.onicecandidate = ({ candidate }) => {
-        if (candidate && this.signalingClient) {
-          console.log('Sending ICE candidate');
+    // Tracks added or removed mid-session; changes made before the first offer are already part of it
+    peerConnection.onnegotiationneeded = () => {
+      if (!peerConnection.remoteDescription) return;
+      this.sendRenegotiationOffer(remoteClientId, peerConnection);
+    };
+
+    // Data channels opened by the remote side (viewers open them as part of their offer)
+    peerConnection.ondatachannel = ({ channel }) => {
+      this.logger.debug('Received data channel', { label: channel.label, remoteClientId });
+      this.setupDataChannel(remoteClientId, channel);
+    };
+
+    // Viewer is the offerer, so its channels have to exist before the offer to be negotiated
+    if (this.role === Role.VIEWER) {
+      this.dataChannelOptions.forEach((options, label) => {
+        this.setupDataChannel(remoteClientId, peerConnection.createDataChannel(label, options));
+      });
+    }
+
+    // Set up ICE candidate handling
+    peerConnection.onicecandidate = ({ candidate }) => {
+      if (candidate && this.signalingClient) {
+        this.logger.debug('Sending ICE candidate', { remoteClientId });
+        if (this.role === Role.MASTER) {
+          this.signalingClient.sendIceCandidate(candidate, remoteClientId);
+        } else {
           this.signalingClient.sendIceCandidate(candidate);
         }
-      };
+      }
+    };
 
-      // Create signaling client
-      console.log('Creating signaling client...');
-      const signalingConfig: any = {
-        channelARN,
-        channelEndpoint: endpointsByProtocol.WSS,
-        role: this.role,
-        region: this.config.region,
-        credentials: {
-          accessKeyId: this.config.accessKeyId,
-          secretAccessKey: this.config.secretAccessKey,
-        },
-        systemClockOffset: 0,
-      };
+    return peerConnection;
+  }
 
-      // Viewer needs a clientId
-      if (this.role === Role.VIEWER) {
-        signalingConfig.clientId = `viewer-${Date.now()}-${Math.random().toString(36).substring(2)}`;
-        console.log('Viewer clientId:', signalingConfig.clientId);
+  private closePeerConnection(remoteClientId: string): void {
+    const peerConnection = this.peerConnections.get(remoteClientId);
+    if (peerConnection) {
+      // Detach handlers first so close() does not re-enter through onconnectionstatechange
+      peerConnection.onconnectionstatechange = null;
+      peerConnection.oniceconnectionstatechange = null;
+      peerConnection.onnegotiationneeded = null;
+      peerConnection.close();
+      this.peerConnections.delete(remoteClientId);
+      if (remoteClientId === MASTER_PEER_ID) {
+        this.clearAnswerTimer();
       }
+      this.logger.info('Closed peer connection', { remoteClientId });
+      this.emit('connectionStateChange', 'closed', remoteClientId);
+    }
 
-      this.signalingClient = new SignalingClient(signalingConfig);
+    if (this.connectedViewers.delete(remoteClientId)) {
+      this.emit('viewerDisconnected', remoteClientId);
+    }
 
-      // Set up signaling event handlers
-      this.setupSignalingHandlers();
+    const remoteStream = this.remoteStreams.get(remoteClientId);
+    if (remoteStream) {
+      // Removed before emitting, like the 'ended' path, so listeners see what is left
+      remoteStream.getTracks().forEach(track => {
+        track.stop();
+        remoteStream.removeTrack(track);
+        this.emit('remoteTrackRemoved', track, remoteStream, remoteClientId);
+      });
+      this.remoteStreams.delete(remoteClientId);
+    }
 
-      // Open signaling connection
-      console.log('Opening signaling connection...');
-      this.signalingClient.open();
+    const failedViewerTimer = this.failedViewerTimers.get(remoteClientId);
+    if (failedViewerTimer) {
+      clearTimeout(failedViewerTimer);
+      this.failedViewerTimers.delete(remoteClientId);
+    }
 
-      // Wait for connection
-      await this.waitForConnection();
+    const dataChannels = this.dataChannels.get(remoteClientId);
+    if (dataChannels) {
+      dataChannels.forEach(channel => channel.close());
+      this.dataChannels.delete(remoteClientId);
+    }
 
-    } catch (error) {
-      console.error('Connection error:', error);
-      if (this.onErrorCallback) {
-        this.onErrorCallback(error instanceof Error ? error : new Error(String(error)));
+    this.pendingICECandidates.delete(remoteClientId);
+    this.makingOffer.delete(remoteClientId);
+  }
+
+  private setupDataChannel(remoteClientId: string, channel: RTCDataChannel): void {
+    channel.binaryType = 'arraybuffer';
+
+    let channels = this.dataChannels.get(remoteClientId);
+    if (!channels) {
+      channels = new Map<string, RTCDataChannel>();
+      this.dataChannels.set(remoteClientId, channels);
+    }
+    channels.set(channel.label, channel);
+
+    channel.onopen = () => {
+      this.logger.info('Data channel open', { label: channel.label, remoteClientId });
+      this.emit('dataChannelOpen', channel.label, remoteClientId);
+    };
+
+    channel.onclose = () => {
+      this.logger.info('Data channel closed', { label: channel.label, remoteClientId });
+      if (this.dataChannels.get(remoteClientId)?.get(channel.label) === channel) {
+        this.dataChannels.get(remoteClientId)?.delete(channel.label);
       }
-      throw error;
+      this.emit('dataChannelClose', channel.label, remoteClientId);
+    };
+
+    channel.onmessage = (event: MessageEvent<DataChannelMessageData>) => {
+      this.emit('message', event.data, remoteClientId, channel.label);
+    };
+  }
+
+  // Master adds channels on established sessions, which only works once the viewer negotiated SCTP
+  private openMissingDataChannels(remoteClientId: string, peerConnection: RTCPeerConnection): void {
+    if (!peerConnection.sctp) return;
+
+    this.dataChannelOptions.forEach((options, label) => {
+      if (!this.dataChannels.get(remoteClientId)?.has(label)) {
+        this.setupDataChannel(remoteClientId, peerConnection.createDataChannel(label, options));
+      }
+    });
+  }
+
+  private async flushPendingICECandidates(remoteClientId: string, peerConnection: RTCPeerConnection): Promise<void> {
+    const candidates = this.pendingICECandidates.get(remoteClientId) || [];
+    this.pendingICECandidates.delete(remoteClientId);
+    for (const candidate of candidates) {
+      await peerConnection.addIceCandidate(candidate);
     }
   }
 
@@ -208,158 +754,840 @@ export class KVSWebRTCClient {
     if (!this.signalingClient) return;
 
     this.signalingClient.on('open', async () => {
-      console.log('Signaling connected, role:', this.role === Role.MASTER ? 'MASTER' : 'VIEWER');
+      this.logger.info('Signaling connected');
+      this.emit('signalingOpen');
+
+      // The viewer's peer connection is created once ICE servers are in; a failure there fails connect()
+      try {
+        await this.iceServersReady;
+      } catch {
+        return;
+      }
       
-      if (this.role === Role.VIEWER) {
-        // Viewer initiates connection by sending offer
-        console.log('Viewer connected, sending offer to master...');
-        await this.createAndSendOffer();
+      const peerConnection = this.peerConnections.get(MASTER_PEER_ID);
+      if (this.role === Role.VIEWER && peerConnection) {
+        if (!peerConnection.localDescription) {
+          // Viewer initiates connection by sending offer
+          this.logger.debug('Sending offer to master');
+          await this.createAndSendOffer();
+        } else if (peerConnection.iceConnectionState !== 'connected' && peerConnection.iceConnectionState !== 'completed') {
+          // Signaling came back on an existing session whose ICE path was lost along with it
+          await this.restartIce();
+        }
+        // Otherwise only signaling dropped and the negotiated session is still healthy
       }
       // Master waits for offers from viewers
     });
 
-    this.signalingClient.on('sdpOffer', async (offer: any, remoteClientId: string) => {
-      console.log('Received SDP offer from:', remoteClientId);
-      
+    this.signalingClient.on('sdpOffer', async (offer, remoteClientId) => {
+      this.logger.info('Received SDP offer', { remoteClientId: remoteClientId || MASTER_PEER_ID });
+
+      // The master renegotiates established sessions by offering to the viewer
+      if (this.role === Role.VIEWER) {
+        const peerConnection = this.peerConnections.get(MASTER_PEER_ID);
+        if (peerConnection?.remoteDescription) {
+          await this.answerRenegotiation(MASTER_PEER_ID, peerConnection, offer);
+        } else {
+          this.logger.warn('Ignoring offer before the session is established');
+        }
+        return;
+      }
+
       // Master receives offers from viewers and responds with answers
-      if (this.role === Role.MASTER && this.peerConnection) {
+      if (this.role === Role.MASTER && remoteClientId) {
+        const existingPeerConnection = this.peerConnections.get(remoteClientId);
+        const isSameSession = !!existingPeerConnection &&
+          getSdpFingerprint(existingPeerConnection.remoteDescription?.sdp) === getSdpFingerprint(offer.sdp);
+
+        // ICE restarts and track changes arrive on the viewer's existing peer connection
+        if (isSameSession) {
+          await this.answerRenegotiation(remoteClientId, existingPeerConnection!, offer);
+          return;
+        }
+
+        if (existingPeerConnection) {
+          // A new offer from a known viewer with a different peer connection replaces its previous session
+          this.closePeerConnection(remoteClientId);
+        } else if (this.peerConnections.size >= MAX_VIEWERS) {
+          this.logger.warn('Ignoring offer, viewer limit reached', { remoteClientId, maxViewers: MAX_VIEWERS });
+          return;
+        }
+
         try {
-          await this.peerConnection.setRemoteDescription(offer);
-          const answer = await this.peerConnection.createAnswer();
-          await this.peerConnection.setLocalDescription(answer);
-          this.signalingClient?.sendSdpAnswer(answer as RTCSessionDescription, remoteClientId);
-          console.log('Master sent SDP answer to viewer:', remoteClientId);
-          
-          // Process pending ICE candidates
-          for (const candidate of this.pendingICECandidates) {
-            await this.peerConnection.addIceCandidate(candidate);
-          }
-          this.pendingICECandidates = [];
+          await this.iceServersReady;
         } catch (error) {
-          console.error('Error handling offer:', error);
+          this.logger.error('Cannot answer without ICE servers', { remoteClientId, error });
+          return;
         }
-      }
-    });
+        this.emit('negotiation', { type: 'offer', direction: 'received', remoteClientId });
 
-    this.signalingClient.on('sdpAnswer', async (answer: any, remoteClientId: string) => {
-      console.log('Received SDP answer from:', remoteClientId || 'master');
-      
-      // Viewer receives answer from master
-      if (this.role === Role.VIEWER && this.peerConnection) {
+        const peerConnection = this.createPeerConnection(remoteClientId);
         try {
-          await this.peerConnection.setRemoteDescription(answer);
-          console.log('Viewer set remote description from master');
+          await peerConnection.setRemoteDescription(offer);
+          // The offer's transceivers only exist once it is applied
+          this.addLocalTracks(peerConnection, remoteClientId, offer.sdp);
+          this.applyCodecPreferences(peerConnection, remoteClientId);
+          const answer = await peerConnection.createAnswer();
+          await peerConnection.setLocalDescription(answer);
+          this.applyEncodingOptions(peerConnection, remoteClientId, this.encodingOptions);
+          this.signalingClient?.sendSdpAnswer(answer as RTCSessionDescription, remoteClientId);
+          this.logger.info('Sent SDP answer', { remoteClientId });
+          this.emit('negotiation', { type: 'answer', direction: 'sent', remoteClientId });
           
           // Process pending ICE candidates
-          for (const candidate of this.pendingICECandidates) {
-            await this.peerConnection.addIceCandidate(candidate);
-          }
-          this.pendingICECandidates = [];
+          await this.flushPendingICECandidates(remoteClientId, peerConnection);
         } catch (error) {
-          console.error('Error handling answer:', error);
+          this.logger.error('Failed to handle offer', { remoteClientId, error });
+          this.closePeerConnection(remoteClientId);
         }
       }
     });
 
-    this.signalingClient.on('iceCandidate', async (candidate: any) => {
-      console.log('Received ICE candidate');
+    this.signalingClient.on('sdpAnswer', async (answer, remoteClientId) => {
+      // Viewer receives answers from the master, the master answers to its renegotiation offers
+      const peerId = this.role === Role.MASTER ? remoteClientId : MASTER_PEER_ID;
+      this.logger.info('Received SDP answer', { remoteClientId: peerId });
+      const peerConnection = peerId ? this.peerConnections.get(peerId) : undefined;
+      if (!peerId || !peerConnection) return;
+
+      // Our offer lost a collision and was rolled back, so there is nothing left to answer
+      if (peerConnection.signalingState !== 'have-local-offer') {
+        this.logger.debug('Ignoring answer without a pending offer', { remoteClientId: peerId, signalingState: peerConnection.signalingState });
+        return;
+      }
+
+      if (this.role === Role.VIEWER) {
+        this.clearAnswerTimer();
+      }
+      try {
+        await peerConnection.setRemoteDescription(answer);
+        this.logger.debug('Set remote description from answer', { remoteClientId: peerId });
+        this.emit('negotiation', { type: 'answer', direction: 'received', remoteClientId: peerId });
+        
+        // Process pending ICE candidates
+        await this.flushPendingICECandidates(peerId, peerConnection);
+      } catch (error) {
+        this.logger.error('Failed to handle answer', { remoteClientId: peerId, error });
+      }
+    });
+
+    this.signalingClient.on('iceCandidate', async (candidate, remoteClientId) => {
+      this.logger.debug('Received ICE candidate', { remoteClientId: remoteClientId || MASTER_PEER_ID });
       
-      if (this.peerConnection) {
-        if (!this.peerConnection.remoteDescription) {
-          this.pendingICECandidates.push(candidate);
-        } else {
-          try {
-            await this.peerConnection.addIceCandidate(candidate);
-          } catch (error) {
-            console.error('Error adding ICE candidate:', error);
-          }
+      const peerId = this.role === Role.MASTER ? remoteClientId : MASTER_PEER_ID;
+      if (!peerId) return;
+      const peerConnection = this.peerConnections.get(peerId);
+      if (!peerConnection || !peerConnection.remoteDescription) {
+        // Candidates can arrive before the offer/answer that creates or completes the connection
+        const pending = this.pendingICECandidates.get(peerId) || [];
+        pending.push(candidate);
+        this.pendingICECandidates.set(peerId, pending);
+      } else {
+        try {
+          await peerConnection.addIceCandidate(candidate);
+        } catch (error) {
+          this.logger.error('Failed to add ICE candidate', { remoteClientId: peerId, error });
         }
       }
     });
 
     this.signalingClient.on('error', (error: any) => {
-      console.error('Signaling error:', error);
-      if (this.onErrorCallback) {
-        this.onErrorCallback(error);
+      this.logger.error('Signaling error', { error });
+      // With reconnection enabled the following 'close' (or a failed open) is retried instead of surfaced,
+      // and a failed first open is reported by connect()
+      if (!this.reconnectOptions.enabled && this.state !== 'signaling') {
+        this.emit('error', toKVSError(error));
       }
     });
 
     this.signalingClient.on('close', () => {
-      console.log('Signaling closed');
+      this.logger.info('Signaling closed');
+      this.emit('signalingClose');
+      this.scheduleReconnect('signaling closed');
     });
   }
 
+  // Perfect negotiation: either side may offer on an established session. The viewer is polite and
+  // rolls its own offer back on a collision, the master ignores the viewer's offer and keeps its own.
+  private async answerRenegotiation(remoteClientId: string, peerConnection: RTCPeerConnection, offer: RTCSessionDescriptionInit): Promise<void> {
+    const collision = this.makingOffer.has(remoteClientId) || peerConnection.signalingState !== 'stable';
+    if (collision && this.role === Role.MASTER) {
+      this.logger.info('Ignoring colliding offer, ours takes precedence', { remoteClientId });
+      return;
+    }
+
+    const isIceRestart = getSdpIceUfrag(peerConnection.remoteDescription?.sdp) !== getSdpIceUfrag(offer.sdp);
+    this.logger.info(isIceRestart ? 'Answering ICE restart' : 'Answering renegotiation', { remoteClientId, collision });
+    this.emit('negotiation', { type: isIceRestart ? 'iceRestart' : 'offer', direction: 'received', remoteClientId });
+
+    try {
+      if (collision) {
+        await peerConnection.setLocalDescription({ type: 'rollback' });
+      }
+      await peerConnection.setRemoteDescription(offer);
+      // Transceivers added by the offer need the preferences too
+      this.applyCodecPreferences(peerConnection, remoteClientId);
+      const answer = await peerConnection.createAnswer();
+      await peerConnection.setLocalDescription(answer);
+      if (this.role === Role.MASTER) {
+        this.signalingClient?.sendSdpAnswer(answer as RTCSessionDescription, remoteClientId);
+      } else {
+        this.signalingClient?.sendSdpAnswer(answer as RTCSessionDescription);
+      }
+      this.logger.info('Sent SDP answer', { remoteClientId });
+      this.emit('negotiation', { type: 'answer', direction: 'sent', remoteClientId });
+
+      await this.flushPendingICECandidates(remoteClientId, peerConnection);
+    } catch (error) {
+      this.logger.error('Failed to handle offer', { remoteClientId, error });
+      // The master can drop one viewer; the viewer recovers through its connection state handling
+      if (this.role === Role.MASTER) {
+        this.closePeerConnection(remoteClientId);
+      }
+    }
+  }
+
+  private async sendRenegotiationOffer(remoteClientId: string, peerConnection: RTCPeerConnection): Promise<void> {
+    if (!this.signalingClient || this.peerConnections.get(remoteClientId) !== peerConnection) return;
+
+    this.makingOffer.add(remoteClientId);
+    try {
+      const offer = await peerConnection.createOffer();
+      // A remote offer applied meanwhile takes over; negotiationneeded fires again once it completes
+      if (peerConnection.signalingState !== 'stable') return;
+      await peerConnection.setLocalDescription(offer);
+      if (this.role === Role.MASTER) {
+        this.signalingClient.sendSdpOffer(offer as RTCSessionDescription, remoteClientId);
+      } else {
+        this.signalingClient.sendSdpOffer(offer as RTCSessionDescription);
+      }
+      this.logger.info('Sent renegotiation offer', { remoteClientId });
+      this.emit('negotiation', { type: 'offer', direction: 'sent', remoteClientId });
+    } catch (error) {
+      this.logger.error('Failed to renegotiate', { remoteClientId, error });
+    } finally {
+      this.makingOffer.delete(remoteClientId);
+    }
+  }
+
+  // Failures are logged rather than thrown: a cap the browser rejects must not break the session
+  private applyEncodingOptions(
+    peerConnection: RTCPeerConnection,
+    remoteClientId: string,
+    options: EncodingOptions,
+    senders: RTCRtpSender[] = peerConnection.getSenders()
+  ): Promise<void> {
+    const updates = senders.map(sender => {
+      const kindOptions = sender.track?.kind === 'video' ? options.video : sender.track?.kind === 'audio' ? options.audio : undefined;
+      if (!kindOptions) return Promise.resolve();
+      return applyEncodingParameters(sender, kindOptions).catch(error => {
+        this.logger.warn('Failed to apply encoding parameters', { kind: sender.track?.kind, remoteClientId, error });
+      });
+    });
+    return Promise.all(updates).then(() => undefined);
+  }
+
+  // Adding after the offer is applied reuses its transceivers, so kinds the viewer left out or only
+  // sends get no local track and no extra m-line
+  private addLocalTracks(peerConnection: RTCPeerConnection, remoteClientId: string, sdp?: string): void {
+    const localStream = this.localStream;
+    if (!localStream) return;
+    const kinds = getReceivingKinds(sdp);
+    localStream.getTracks().forEach(track => {
+      if (!kinds.includes(track.kind as MediaKind)) {
+        this.logger.debug('Viewer does not receive this kind, not sending it', { kind: track.kind, remoteClientId });
+        return;
+      }
+      this.logger.debug('Adding local track', { kind: track.kind, remoteClientId });
+      peerConnection.addTrack(track, localStream);
+    });
+  }
+
+  // Preferences stick to the transceivers, so later offers and ICE restarts keep them
+  private applyCodecPreferences(peerConnection: RTCPeerConnection, remoteClientId: string): void {
+    const preferences = this.config.codecs;
+    if (!preferences) return;
+
+    const skipped = applyCodecPreferences(peerConnection, preferences);
+    if (skipped.length > 0) {
+      this.logger.warn('Codec preferences not supported here, using browser defaults', { kinds: skipped, remoteClientId });
+    }
+  }
+
   private async createAndSendOffer(): Promise<void> {
-    if (this.role !== Role.VIEWER || !this.peerConnection || !this.signalingClient) return;
+    const peerConnection = this.peerConnections.get(MASTER_PEER_ID);
+    if (this.role !== Role.VIEWER || !peerConnection || !this.signalingClient) return;
 
     try {
+      if (!peerConnection.localDescription) {
+        this.applyCodecPreferences(peerConnection, MASTER_PEER_ID);
+      }
+
       // Viewer creates offer to send to master
-      const offer = await this.peerConnection.createOffer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: true,
-      });
-      await this.peerConnection.setLocalDescription(offer);
+      const offer = await peerConnection.createOffer();
+      await peerConnection.setLocalDescription(offer);
+      this.applyEncodingOptions(peerConnection, MASTER_PEER_ID, this.encodingOptions);
       this.signalingClient.sendSdpOffer(offer as RTCSessionDescription);
-      console.log('Viewer sent SDP offer to master');
+      this.logger.info('Sent SDP offer to master');
+      this.emit('negotiation', { type: 'offer', direction: 'sent', remoteClientId: MASTER_PEER_ID });
+      // A reconnect stays in 'reconnecting' until the new session is up
+      if (this.state === 'signaling') {
+        this.transition('negotiating');
+      }
+      this.startAnswerTimer();
     } catch (error) {
-      console.error('Error creating/sending offer:', error);
-      if (this.onErrorCallback) {
-        this.onErrorCallback(error instanceof Error ? error : new Error(String(error)));
+      this.logger.error('Failed to create or send offer', { error });
+      this.emit('error', toKVSError(error));
+    }
+  }
+
+  // KVS drops offers for a channel without a master silently, so silence is the only signal
+  private startAnswerTimer(): void {
+    this.clearAnswerTimer();
+    this.answerTimer = setTimeout(() => {
+      this.answerTimer = undefined;
+      this.logger.warn('No answer from master', { timeoutMs: this.timeouts.answerMs });
+      const error = new MasterNotPresentError(this.timeouts.answerMs);
+      if (!this.reconnectOptions.enabled) {
+        // Nothing will send another offer, so the session ends here
+        this.teardown();
+        this.emit('error', error);
+        return;
+      }
+      this.emit('error', error);
+      // Reconnecting sends a fresh offer, so the viewer joins once the master shows up
+      this.scheduleReconnect('master not present');
+    }, this.timeouts.answerMs);
+  }
+
+  private clearAnswerTimer(): void {
+    if (this.answerTimer) {
+      clearTimeout(this.answerTimer);
+      this.answerTimer = undefined;
+    }
+  }
+
+  private handleMasterConnectionState(remoteClientId: string, state: RTCPeerConnectionState): void {
+    const failedViewerTimer = this.failedViewerTimers.get(remoteClientId);
+    if (failedViewerTimer) {
+      clearTimeout(failedViewerTimer);
+      this.failedViewerTimers.delete(remoteClientId);
+    }
+
+    if (state === 'connected' && !this.connectedViewers.has(remoteClientId)) {
+      this.connectedViewers.add(remoteClientId);
+      this.emit('viewerConnected', remoteClientId);
+
+      const peerConnection = this.peerConnections.get(remoteClientId);
+      if (peerConnection) {
+        this.openMissingDataChannels(remoteClientId, peerConnection);
+      }
+    }
+
+    // Master drops viewers independently so the remaining ones keep streaming
+    if (state === 'closed') {
+      this.closePeerConnection(remoteClientId);
+    } else if (state === 'failed') {
+      if (!this.reconnectOptions.iceRestart) {
+        this.closePeerConnection(remoteClientId);
+        return;
+      }
+      this.failedViewerTimers.set(remoteClientId, setTimeout(() => {
+        this.failedViewerTimers.delete(remoteClientId);
+        this.logger.info('Viewer did not recover with an ICE restart', { remoteClientId });
+        this.closePeerConnection(remoteClientId);
+      }, this.reconnectOptions.iceRestartTimeoutMs));
+    }
+  }
+
+  private handleViewerConnectionState(state: RTCPeerConnectionState): void {
+    switch (state) {
+      case 'connected':
+        if (this.reconnectAttempt > 0) {
+          this.handleReconnected();
+        } else {
+          this.transition('connected');
+        }
+        break;
+      case 'failed':
+        // An ICE restart in flight escalates on its own timeout
+        if (!this.iceRestartTimer) {
+          this.handlePeerFailure();
+        }
+        break;
+    }
+  }
+
+  private handleViewerIceConnectionState(state: RTCIceConnectionState): void {
+    if (this.disconnectedTimer) {
+      clearTimeout(this.disconnectedTimer);
+      this.disconnectedTimer = undefined;
+    }
+
+    switch (state) {
+      case 'connected':
+      case 'completed':
+        if (this.iceRestartTimer) {
+          this.logger.info('ICE restart succeeded');
+          clearTimeout(this.iceRestartTimer);
+          this.iceRestartTimer = undefined;
+          // The peer connection itself may never have left 'connected', so this is the only recovery signal
+          if (this.reconnectAttempt === 0) {
+            this.transition('connected');
+          }
+        }
+        break;
+      case 'disconnected':
+        // 'disconnected' is often transient, give the browser a chance to recover on its own
+        this.disconnectedTimer = setTimeout(() => {
+          this.disconnectedTimer = undefined;
+          this.restartIce();
+        }, this.reconnectOptions.disconnectedGraceMs);
+        break;
+      case 'failed':
+        this.restartIce();
+        break;
+    }
+  }
+
+  private async restartIce(): Promise<void> {
+    const peerConnection = this.peerConnections.get(MASTER_PEER_ID);
+    if (this.state === 'closed' || this.role !== Role.VIEWER || !peerConnection || this.iceRestartTimer) return;
+
+    if (!this.reconnectOptions.iceRestart) {
+      this.handlePeerFailure();
+      return;
+    }
+
+    // Without signaling the restart offer cannot be delivered; the signaling reconnect restarts ICE once open
+    if (!this.signalingClient || this.reconnectTimer) {
+      this.handlePeerFailure();
+      return;
+    }
+
+    this.transition('reconnecting');
+    this.iceRestartTimer = setTimeout(() => {
+      this.iceRestartTimer = undefined;
+      this.logger.warn('ICE restart timed out, renegotiating session');
+      // Drop the session so the reconnect negotiates a fresh peer connection
+      this.closePeerConnection(MASTER_PEER_ID);
+      this.handlePeerFailure();
+    }, this.reconnectOptions.iceRestartTimeoutMs);
+
+    try {
+      this.logger.info('Restarting ICE');
+      this.makingOffer.add(MASTER_PEER_ID);
+      const offer = await peerConnection.createOffer({ iceRestart: true });
+      await peerConnection.setLocalDescription(offer);
+      this.signalingClient.sendSdpOffer(offer as RTCSessionDescription);
+      this.logger.debug('Sent ICE restart offer to master');
+      this.emit('negotiation', { type: 'iceRestart', direction: 'sent', remoteClientId: MASTER_PEER_ID });
+    } catch (error) {
+      this.logger.error('Failed to restart ICE', { error });
+    } finally {
+      this.makingOffer.delete(MASTER_PEER_ID);
+    }
+  }
+
+  private handlePeerFailure(): void {
+    if (this.state === 'closed') return;
+
+    if (this.reconnectOptions.enabled) {
+      this.scheduleReconnect('peer connection failed');
+    } else {
+      // The viewer's only session is gone
+      this.teardown();
+      this.emit('error', new IceFailedError());
+    }
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (!this.reconnectOptions.enabled || this.reconnectTimer) return;
+    // Failures while connect() is still in flight are reported by connect() itself
+    if (this.state !== 'reconnecting' && !canTransition(this.state, 'reconnecting')) return;
+
+    if (this.reconnectAttempt >= this.reconnectOptions.maxAttempts) {
+      this.logger.error('Giving up reconnecting', { attempts: this.reconnectAttempt });
+      const error = this.lastReconnectError ||
+        new IceFailedError(`Reconnection failed after ${this.reconnectAttempt} attempts`);
+      this.lifecycleController.abort();
+      this.teardown();
+      this.emit('error', error);
+      return;
+    }
+
+    this.transition('reconnecting');
+    this.reconnectAttempt++;
+    const delayMs = getReconnectDelay(this.reconnectAttempt, this.reconnectOptions);
+    this.logger.info('Reconnecting', { reason, attempt: this.reconnectAttempt, delayMs });
+    this.emit('reconnecting', this.reconnectAttempt, delayMs);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.reconnect(reason);
+    }, delayMs);
+  }
+
+  private async reconnect(reason: string): Promise<void> {
+    const { signal } = this.lifecycleController;
+    try {
+      this.closeSignalingClient();
+
+      // Cached endpoints and TURN credentials are reused first, and refetched once a plain reopen has failed
+      const forceRefresh = this.reconnectAttempt > 1;
+      await this.resolveSignalingChannel(forceRefresh);
+      this.iceServersReady = this.loadIceServers(forceRefresh);
+      await this.iceServersReady;
+      this.throwIfAborted(signal);
+
+      // Viewer keeps a negotiated session for an ICE restart once signaling is back,
+      // and renegotiates from scratch when there is none or a first attempt did not help
+      if (this.role === Role.VIEWER) {
+        const peerConnection = this.peerConnections.get(MASTER_PEER_ID);
+        const canRestartIce = this.reconnectOptions.iceRestart && this.reconnectAttempt === 1 &&
+          !!peerConnection?.remoteDescription && peerConnection.connectionState !== 'closed';
+        if (!peerConnection || (peerConnection.connectionState !== 'connected' && !canRestartIce)) {
+          this.closePeerConnection(MASTER_PEER_ID);
+          this.createPeerConnection(MASTER_PEER_ID);
+        }
+      }
+
+      await this.openSignalingWithSkewCorrection(signal);
+
+      // Master is back once signaling is open, viewer once its peer connection reports 'connected'
+      const viewerPeerConnection = this.peerConnections.get(MASTER_PEER_ID);
+      if (this.role === Role.MASTER || viewerPeerConnection?.connectionState === 'connected') {
+        this.handleReconnected();
       }
+    } catch (error) {
+      if (signal.aborted) return;
+      this.logger.warn('Reconnection attempt failed', { attempt: this.reconnectAttempt, error });
+      this.lastReconnectError = this.toResolutionError(error);
+      this.scheduleReconnect(reason);
+    }
+  }
+
+  private handleReconnected(): void {
+    this.logger.info('Reconnected', { attempts: this.reconnectAttempt });
+    this.reconnectAttempt = 0;
+    this.lastReconnectError = undefined;
+    this.transition('connected');
+    this.emit('reconnected');
+  }
+
+  private closeSignalingClient(): void {
+    // An offer in flight is lost with the socket
+    this.clearAnswerTimer();
+    if (this.signalingClient) {
+      // Drop listeners first so closing an old client never schedules another reconnect
+      this.signalingClient.removeAllListeners();
+      this.signalingClient.close();
+      this.signalingClient = undefined;
     }
   }
 
-  private waitForConnection(): Promise<void> {
+  // Settles on the first of open, error, close, timeout or abort, and removes all of its listeners
+  private waitForConnection(signalingClient: SignalingTransport, signal: AbortSignal): Promise<void> {
+    const timeoutMs = this.timeouts.signalingOpenMs;
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => reject(new Error('Connection timeout')), 10000);
-      
-      this.signalingClient?.on('open', () => {
-        clearTimeout(timeout);
-        resolve();
-      });
-      
-      this.signalingClient?.on('error', (error) => {
+      const settle = (error?: unknown) => {
         clearTimeout(timeout);
-        reject(error);
-      });
+        signalingClient.off('open', onOpen);
+        signalingClient.off('error', onError);
+        signalingClient.off('close', onClose);
+        signal.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onOpen = () => settle();
+      const onError = (error: unknown) => settle(error || new Error('Signaling connection failed'));
+      const onClose = () => settle(new Error('Signaling connection closed before it opened'));
+      const onAbort = () => settle(new ConnectionAbortedError());
+      const timeout = setTimeout(() => settle(new SignalingTimeoutError(timeoutMs)), timeoutMs);
+
+      signalingClient.on('open', onOpen);
+      signalingClient.on('error', onError);
+      signalingClient.on('close', onClose);
+      signal.addEventListener('abort', onAbort);
     });
   }
 
   disconnect(): void {
+    // Stops an in-flight connect() or reconnect at its next step
+    this.lifecycleController.abort();
+
     if (this.localStream) {
       this.localStream.getTracks().forEach(track => track.stop());
       this.localStream = undefined;
     }
 
-    if (this.remoteStream) {
-      this.remoteStream.getTracks().forEach(track => track.stop());
-      this.remoteStream = undefined;
+    this.teardown();
+  }
+
+  // Releases everything a session holds except the caller's local stream
+  private teardown(): void {
+    this.reconnectAttempt = 0;
+    this.lastReconnectError = undefined;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
     }
 
-    if (this.peerConnection) {
-      this.peerConnection.close();
-      this.peerConnection = undefined;
+    if (this.disconnectedTimer) {
+      clearTimeout(this.disconnectedTimer);
+      this.disconnectedTimer = undefined;
     }
 
-    if (this.signalingClient) {
-      this.signalingClient.close();
-      this.signalingClient = undefined;
+    if (this.iceRestartTimer) {
+      clearTimeout(this.iceRestartTimer);
+      this.iceRestartTimer = undefined;
     }
+
+    if (this.iceServerRefreshTimer) {
+      clearTimeout(this.iceServerRefreshTimer);
+      this.iceServerRefreshTimer = undefined;
+    }
+
+    Array.from(this.peerConnections.keys()).forEach(remoteClientId => {
+      this.closePeerConnection(remoteClientId);
+    });
+    this.pendingICECandidates.clear();
+    this.adaptiveBitrate?.stop();
+    this.statsCollector?.stop();
+
+    this.closeSignalingClient();
+    this.transition('closed');
+  }
+
+  // Callback-style wrappers kept for existing callers, each adds a listener rather than replacing one
+  onRemoteStream(callback: (stream: MediaStream, remoteClientId: string) => void): void {
+    this.on('remoteStream', callback);
   }
 
-  onRemoteStream(callback: (stream: MediaStream) => void): void {
-    this.onRemoteStreamCallback = callback;
+  onConnectionStateChange(callback: (state: RTCPeerConnectionState, remoteClientId: string) => void): void {
+    this.on('connectionStateChange', callback);
   }
 
-  onConnectionStateChange(callback: (state: RTCPeerConnectionState) => void): void {
-    this.onConnectionStateChangeCallback = callback;
+  onError(callback: (error: KVSError) => void): void {
+    this.on('error', callback);
+  }
+
+  onReconnecting(callback: (attempt: number, delayMs: number) => void): void {
+    this.on('reconnecting', callback);
+  }
+
+  onReconnected(callback: () => void): void {
+    this.on('reconnected', callback);
+  }
+
+  onMessage(callback: (data: DataChannelMessageData, remoteClientId: string, label: string) => void): void {
+    this.on('message', callback);
+  }
+
+  // Registers a data channel for every current and future peer connection.
+  // Viewers must call this before connect() so the channel is part of their offer.
+  createDataChannel(label: string = DEFAULT_DATA_CHANNEL_LABEL, options: RTCDataChannelInit = {}): void {
+    this.dataChannelOptions.set(label, options);
+
+    this.peerConnections.forEach((peerConnection, remoteClientId) => {
+      if (this.dataChannels.get(remoteClientId)?.has(label)) return;
+
+      if (this.role === Role.VIEWER && !peerConnection.localDescription) {
+        this.setupDataChannel(remoteClientId, peerConnection.createDataChannel(label, options));
+      } else {
+        this.openMissingDataChannels(remoteClientId, peerConnection);
+      }
+    });
+  }
+
+  // Sends a local track to every current and future peer; established sessions renegotiate on their own.
+  // The track joins the stream passed to connect(), so the remote side sees one stream.
+  addTrack(track: MediaStreamTrack): void {
+    const localStream = this.getLocalStream();
+    if (localStream.getTracks().includes(track)) return;
+    localStream.addTrack(track);
+
+    this.peerConnections.forEach((peerConnection, remoteClientId) => {
+      this.sendTrack(peerConnection, remoteClientId, track, localStream);
+    });
+  }
+
+  // A master started without local media has no stream until the first track is added
+  private getLocalStream(): MediaStream {
+    if (!this.localStream) {
+      this.localStream = new MediaStream();
+    }
+    return this.localStream;
+  }
+
+  private sendTrack(peerConnection: RTCPeerConnection, remoteClientId: string, track: MediaStreamTrack, localStream: MediaStream): void {
+    // An idle sender of the same kind, reserved with 'sendrecv' media or left by removeTrack(), takes the
+    // track on its existing m-line; only a direction change renegotiates
+    const transceiver = peerConnection.getTransceivers().find(candidate =>
+      candidate.receiver.track.kind === track.kind && !candidate.sender.track && candidate.currentDirection !== 'stopped');
+    if (transceiver) {
+      this.logger.info('Sending local track on an existing transceiver', { kind: track.kind, remoteClientId });
+      if (transceiver.direction === 'recvonly') transceiver.direction = 'sendrecv';
+      if (transceiver.direction === 'inactive') transceiver.direction = 'sendonly';
+      transceiver.sender.setStreams?.(localStream);
+      transceiver.sender.replaceTrack(track).then(() => {
+        return this.applyEncodingOptions(peerConnection, remoteClientId, this.encodingOptions, [transceiver.sender]);
+      }, error => {
+        this.logger.warn('Failed to send local track', { kind: track.kind, remoteClientId, error });
+      });
+      return;
+    }
+
+    // A viewer that left this kind out of its offer keeps it left out
+    if (this.role === Role.MASTER && !getReceivingKinds(peerConnection.remoteDescription?.sdp).includes(track.kind as MediaKind)) {
+      this.logger.debug('Viewer does not receive this kind, not sending it', { kind: track.kind, remoteClientId });
+      return;
+    }
+
+    this.logger.info('Adding local track', { kind: track.kind, remoteClientId });
+    const sender = peerConnection.addTrack(track, localStream);
+    this.applyEncodingOptions(peerConnection, remoteClientId, this.encodingOptions, [sender]);
+  }
+
+  // Stops sending the track to every peer; the track itself keeps running
+  removeTrack(track: MediaStreamTrack): void {
+    this.localStream?.removeTrack(track);
+
+    this.peerConnections.forEach((peerConnection, remoteClientId) => {
+      const sender = peerConnection.getSenders().find(candidate => candidate.track === track);
+      if (sender) {
+        this.logger.info('Removing local track', { kind: track.kind, remoteClientId });
+        peerConnection.removeTrack(sender);
+      }
+    });
+  }
+
+  // Swaps the source of a sent track on every peer without renegotiating, e.g. to change camera.
+  // Replaces the local track of the same kind when oldTrack is omitted; the old track is not stopped.
+  async replaceTrack(newTrack: MediaStreamTrack, oldTrack?: MediaStreamTrack): Promise<void> {
+    const previous = oldTrack || this.localStream?.getTracks().find(track => track.kind === newTrack.kind);
+    if (previous && previous.kind !== newTrack.kind) {
+      throw new Error(`Cannot replace the ${previous.kind} track with a ${newTrack.kind} track`);
+    }
+    if (!previous) {
+      this.addTrack(newTrack);
+      return;
+    }
+
+    const localStream = this.getLocalStream();
+    localStream.removeTrack(previous);
+    localStream.addTrack(newTrack);
+
+    await Promise.all(Array.from(this.peerConnections.entries()).map(([remoteClientId, peerConnection]) => {
+      const sender = peerConnection.getSenders().find(candidate => candidate.track === previous);
+      if (!sender) return Promise.resolve();
+      return sender.replaceTrack(newTrack).then(() => {
+        this.logger.info('Replaced local track', { kind: newTrack.kind, remoteClientId });
+      }, error => {
+        // Only fails when the new track needs a renegotiation the old one did not, so fall back to one
+        this.logger.warn('Failed to replace track, renegotiating', { kind: newTrack.kind, remoteClientId, error });
+        try {
+          peerConnection.removeTrack(sender);
+          peerConnection.addTrack(newTrack, localStream);
+        } catch (fallbackError) {
+          // The peer may have closed meanwhile; one viewer must not fail the swap for the others
+          this.logger.error('Failed to send replacement track', { kind: newTrack.kind, remoteClientId, error: fallbackError });
+        }
+      });
+    }));
+  }
+
+  // Returns the number of peers the message was sent to
+  send(data: DataChannelPayload, options: SendOptions = {}): number {
+    const label = options.label || DEFAULT_DATA_CHANNEL_LABEL;
+    let remoteClientIds: string[];
+    if (this.role === Role.VIEWER) {
+      remoteClientIds = [MASTER_PEER_ID];
+    } else if (options.remoteClientId) {
+      remoteClientIds = Array.isArray(options.remoteClientId) ? options.remoteClientId : [options.remoteClientId];
+    } else {
+      remoteClientIds = Array.from(this.dataChannels.keys());
+    }
+
+    let sentCount = 0;
+    remoteClientIds.forEach(remoteClientId => {
+      const channel = this.dataChannels.get(remoteClientId)?.get(label);
+      if (!channel || channel.readyState !== 'open') {
+        this.logger.warn('Data channel is not open, message dropped', { label, remoteClientId });
+        return;
+      }
+      sendDataChannelPayload(channel, data);
+      sentCount++;
+    });
+    return sentCount;
+  }
+
+  getDiagnostics(): KVSDiagnostics {
+    return { clockSkew: this.clockSkew };
+  }
+
+  getViewerIds(): string[] {
+    return this.role === Role.MASTER ? Array.from(this.peerConnections.keys()) : [];
+  }
+
+  disconnectViewer(remoteClientId: string): void {
+    if (this.role !== Role.MASTER) return;
+    this.closePeerConnection(remoteClientId);
+  }
+
+  getStats(remoteClientId?: string): Promise<RTCStatsReport> | undefined {
+    // Master without a viewer id reports on the first viewer
+    const peerId = remoteClientId ||
+      (this.role === Role.VIEWER ? MASTER_PEER_ID : this.peerConnections.keys().next().value);
+    const peerConnection = peerId ? this.peerConnections.get(peerId) : undefined;
+    if (!peerId || !peerConnection) return undefined;
+
+    return peerConnection.getStats().then(report => {
+      this.emit('stats', report, peerId);
+      return report;
+    });
+  }
+
+  // Latest normalized sample, undefined until the collector has sampled the peer or when stats are off
+  getStatsSnapshot(remoteClientId?: string): PeerStatsSnapshot | undefined {
+    const peerId = remoteClientId ||
+      (this.role === Role.VIEWER ? MASTER_PEER_ID : this.peerConnections.keys().next().value);
+    return peerId ? this.statsCollector?.getSnapshot(peerId) : undefined;
+  }
+
+  getStatsSnapshots(): PeerStatsSnapshot[] {
+    return this.statsCollector?.getSnapshots() || [];
+  }
+
+  // Updates encoder caps live, for one viewer or for every current and future peer connection
+  async setEncodingParameters(options: EncodingOptions, remoteClientId?: string): Promise<void> {
+    validateEncodingOptions(options.video || {});
+    validateEncodingOptions(options.audio || {});
+
+    if (!remoteClientId) {
+      this.encodingOptions = mergeEncodingOptions(this.encodingOptions, options);
+    }
+
+    const peerIds = remoteClientId ? [remoteClientId] : Array.from(this.peerConnections.keys());
+    await Promise.all(peerIds.map(peerId => {
+      const peerConnection = this.peerConnections.get(peerId);
+      if (!peerConnection) return Promise.resolve();
+      return this.applyEncodingOptions(peerConnection, peerId, options);
+    }));
+    this.logger.info('Encoding parameters updated', { ...options, remoteClientId });
   }
 
-  onError(callback: (error: Error) => void): void {
-    this.onErrorCallback = callback;
+  getEncodingOptions(): EncodingOptions {
+    return this.encodingOptions;
   }
 
-  getStats(): Promise<RTCStatsReport> | undefined {
-    return this.peerConnection?.getStats();
+  // Codecs of the media actually flowing, empty until RTP starts
+  async getNegotiatedCodecs(remoteClientId?: string): Promise<NegotiatedCodecs> {
+    const report = await this.getStats(remoteClientId);
+    return report ? getNegotiatedCodecs(report) : {};
   }
 }
\ No newline at end of file
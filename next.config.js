@@ -1,6 +1,11 @@
+// KVS_SERVER_MODE=true builds a Node server so the signaling URL vending route can run;
+// by default the app is a static export and route handlers are left out of the build
+const serverMode = process.env.KVS_SERVER_MODE === 'true';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  output: 'export',
+  output: serverMode ? undefined : 'export',
+  pageExtensions: serverMode ? ['tsx', 'ts', 'jsx', 'js', 'server.ts'] : ['tsx', 'ts', 'jsx', 'js'],
   eslint: {
     ignoreDuringBuilds: true,
   },
@@ -0,0 +1,98 @@
+// Offline stand-in for KVS signaling: relays SDP and ICE messages between one master and its viewers
+// per channel, using the KVS message shapes. Pair with NEXT_PUBLIC_KVS_LOCAL_SIGNALING_URL.
+//
+//   npm run signaling:local            (listens on ws://localhost:8787)
+//   PORT=9000 npm run signaling:local
+//
+// Clients connect with ?channel=<name>&role=MASTER|VIEWER&clientId=<viewer id>.
+
+import { WebSocketServer } from 'ws';
+import { pathToFileURL } from 'node:url';
+
+const MESSAGE_TYPES = ['SDP_OFFER', 'SDP_ANSWER', 'ICE_CANDIDATE'];
+
+export function createLocalSignalingServer({ port = 8787, host, log = console.log } = {}) {
+  // channel name -> { master?: WebSocket, viewers: Map<clientId, WebSocket> }
+  const channels = new Map();
+  const server = new WebSocketServer({ port, host });
+
+  const getChannel = name => {
+    if (!channels.has(name)) {
+      channels.set(name, { master: undefined, viewers: new Map() });
+    }
+    return channels.get(name);
+  };
+
+  server.on('connection', (socket, request) => {
+    const params = new URL(request.url || '/', 'ws://localhost').searchParams;
+    const channelName = params.get('channel');
+    const role = params.get('role');
+    const clientId = params.get('clientId');
+
+    if (!channelName || (role !== 'MASTER' && role !== 'VIEWER') || (role === 'VIEWER' && !clientId)) {
+      socket.close(1008, 'channel, role and a viewer clientId are required');
+      return;
+    }
+
+    const channel = getChannel(channelName);
+    // Like KVS, a new connection with the same identity replaces the old one
+    const previous = role === 'MASTER' ? channel.master : channel.viewers.get(clientId);
+    if (previous) {
+      previous.close(1000, 'Replaced by a new connection');
+    }
+    if (role === 'MASTER') {
+      channel.master = socket;
+    } else {
+      channel.viewers.set(clientId, socket);
+    }
+    log(`[${channelName}] ${role === 'MASTER' ? 'master' : `viewer ${clientId}`} connected`);
+
+    socket.on('message', data => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        log(`[${channelName}] dropping malformed message`);
+        return;
+      }
+      if (!MESSAGE_TYPES.includes(message.action) || typeof message.messagePayload !== 'string') {
+        log(`[${channelName}] dropping unknown message ${message.action}`);
+        return;
+      }
+
+      // Viewers always talk to the master; the master addresses a viewer and is not named as sender
+      const recipient = role === 'MASTER' ? channel.viewers.get(message.recipientClientId) : channel.master;
+      if (!recipient) {
+        log(`[${channelName}] no recipient for ${message.action} from ${clientId || 'master'}`);
+        return;
+      }
+
+      recipient.send(JSON.stringify({
+        messageType: message.action,
+        messagePayload: message.messagePayload,
+        senderClientId: role === 'VIEWER' ? clientId : undefined,
+      }));
+    });
+
+    socket.on('close', () => {
+      if (role === 'MASTER' && channel.master === socket) {
+        channel.master = undefined;
+      } else if (role === 'VIEWER' && channel.viewers.get(clientId) === socket) {
+        channel.viewers.delete(clientId);
+      }
+      if (!channel.master && channel.viewers.size === 0) {
+        channels.delete(channelName);
+      }
+      log(`[${channelName}] ${role === 'MASTER' ? 'master' : `viewer ${clientId}`} disconnected`);
+    });
+  });
+
+  return server;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  createLocalSignalingServer({ port }).on('listening', () => {
+    console.log(`Local signaling server listening on ws://localhost:${port}`);
+  });
+}